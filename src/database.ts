@@ -1,7 +1,32 @@
 import * as sqlite3 from '@vscode/sqlite3';
-import { SessionSummary, TurnRow, AnnotationRow, SearchResult } from './types';
+import {
+  SessionSummary, TurnRow, AnnotationRow, SearchResult, ReplayCheckpoint, SerializableChatData, ArchiveEntry,
+  ExtractedToolCall, ExtractedResponsePart, ExtractedCodeBlock, CodeSearchResult, SearchMatch, SearchFilters,
+  SessionListOptions, FileActivity, FileTurn, ToolActivity, ToolTurn, ActivityTurn, SessionMarks,
+} from './types';
+import { BASELINE_VERSION, MigrationContext, SCHEMA_VERSION, pendingMigrations } from './schemaMigrations';
+import { SNIPPET_CLOSE, SNIPPET_OPEN, parseSnippet } from './utils';
+
+interface SessionRow {
+  session_id: string; file_path: string; title: string | null;
+  creation_date: number; request_count: number; last_message: string | null;
+  model_ids: string; agents: string; total_tokens: number;
+  has_votes: number; file_size: number; storage_type: string; workspace_path: string;
+  installation: string | null; profile: string | null; source: string | null;
+  last_message_date: number | null; last_request_started: number | null; last_request_ended: number | null;
+  is_empty: number; is_external: number; archived_at: number | null;
+}
+
+/** A turn joined with its session's title, as listed under a file or tool. */
+interface ActivityTurnRow {
+  session_id: string; title: string | null; last_message: string | null; creation_date: number;
+  turn_index: number; prompt_text: string; timestamp: number;
+}
 
-const SCHEMA_VERSION = 3;
+interface ArchiveRow {
+  session_id: string; file_path: string; source: string; archive_path: string;
+  file_mtime: number; archived_at: number | null; summary: string;
+}
 
 /**
  * SQLite-backed persistent store for chat session data.
@@ -10,12 +35,34 @@ const SCHEMA_VERSION = 3;
  *   sessions  — one row per conversation
  *   turns     — one row per user↔agent exchange
  *   annotations — one row per interesting facet (tool, file edit, reference, etc.)
+ *   tool_calls — one row per tool invocation with its arguments, result and status
+ *   response_parts — every response part in order, with its kind, text and raw JSON
+ *   code_blocks — fenced code blocks from responses
+ *   code_blocks_fts — trigram FTS5 index over code_blocks for substring search
  *   turns_fts — FTS5 virtual table for full-text search on turns
+ *   sessions_fts — FTS5 index of session titles, attachment names and file paths
+ *   replay_checkpoints — replayed JSONL state of recently modified large files for append-only tail replay
+ *
+ * These are all derived from session files and are rebuilt when their schema
+ * changes. User tables are created and migrated in schemaMigrations.ts:
+ *   session_archive — compressed copies of session files kept by archive mode
+ *   session_tags — user tags per session; the `starred` tag marks starred sessions
+ *   session_notes — a free-text user note per session
+ *
+ * User tables are keyed by session id without a foreign key, so they outlive
+ * rebuilds of the derived tables and reattach when the session is indexed again.
  */
 export class ChatDatabase {
   private db: sqlite3.Database | null = null;
   private indexingBarrier: Promise<void> | null = null;
   private indexingBarrierResolve: (() => void) | null = null;
+  /**
+   * Transactions can't nest on the single connection, so one is held from
+   * beginTransaction until commit or rollback and the next one waits for it.
+   */
+  private transactionLock: Promise<void> = Promise.resolve();
+  private releaseTransaction: (() => void) | null = null;
+  private codeSearchAvailable = false;
 
   constructor(private readonly dbPath: string) {}
 
@@ -68,27 +115,80 @@ export class ChatDatabase {
     // Check schema version
     await this.run(`CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT)`);
     const row = await this.get<{ value: string }>('SELECT value FROM meta WHERE key = ?', 'schema_version');
-    const existingVersion = row ? parseInt(row.value, 10) : 0;
+    let version = row ? parseInt(row.value, 10) || 0 : 0;
 
-    if (existingVersion !== SCHEMA_VERSION) {
-      await this.recreateSchema();
-    } else {
-      await this.ensureSchema();
+    // No migration path from here: rebuild the derived tables, keep user tables
+    if (version < BASELINE_VERSION || version > SCHEMA_VERSION) {
+      await this.dropDerivedTables();
+      await this.setSchemaVersion(BASELINE_VERSION);
+      version = BASELINE_VERSION;
     }
-  }
 
-  private async recreateSchema(): Promise<void> {
-    await this.dropAllTables();
+    await this.migrate(version);
     await this.ensureSchema();
+  }
+
+  /** Run pending migrations in order, one transaction per step. */
+  private async migrate(fromVersion: number): Promise<void> {
+    const pending = pendingMigrations(fromVersion);
+    if (pending.length === 0) { return; }
+
+    const ctx: MigrationContext = {
+      exec: (sql) => this.exec(sql),
+      run: (sql, ...params) => this.run(sql, ...params),
+      all: (sql, ...params) => this.all(sql, ...params),
+      addColumn: async (table, column, definition) => {
+        const columns = await this.all<{ name: string }>(`PRAGMA table_info(${table})`);
+        if (!columns.some(c => c.name === column)) {
+          await this.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        }
+      },
+    };
+
+    let dropped = false;
+    for (const migration of pending) {
+      await this.beginTransaction();
+      try {
+        await migration.up?.(ctx);
+        // In the same transaction as the version, so a crash can't record the
+        // new version over derived tables of the old definition
+        if (migration.rebuildDerived && !dropped) {
+          await this.dropDerivedTables();
+        }
+        await this.setSchemaVersion(migration.version);
+        await this.run(
+          `INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)`,
+          `migration.${migration.version}`, JSON.stringify({ description: migration.description, appliedAt: Date.now() }),
+        );
+        await this.commit();
+      } catch (err) {
+        await this.rollback().catch(() => {/* already rolled back */});
+        throw new Error(`Schema migration to version ${migration.version} (${migration.description}) failed: ${err}`);
+      }
+      dropped ||= !!migration.rebuildDerived;
+    }
+  }
+
+  private async setSchemaVersion(version: number): Promise<void> {
     await this.run(
       `INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)`,
-      'schema_version', String(SCHEMA_VERSION),
+      'schema_version', String(version),
     );
   }
 
-  private async dropAllTables(): Promise<void> {
+  /**
+   * Drop the tables whose contents are extracted from session files.
+   * User tables (created by migrations) and `meta` are never dropped.
+   */
+  private async dropDerivedTables(): Promise<void> {
     await this.exec(`
+      DROP TABLE IF EXISTS replay_checkpoints;
+      DROP TABLE IF EXISTS code_blocks_fts;
+      DROP TABLE IF EXISTS code_blocks;
+      DROP TABLE IF EXISTS response_parts;
+      DROP TABLE IF EXISTS tool_calls;
       DROP TABLE IF EXISTS annotations;
+      DROP TABLE IF EXISTS sessions_fts;
       DROP TABLE IF EXISTS turns_fts;
       DROP TABLE IF EXISTS turns;
       DROP TABLE IF EXISTS sessions;
@@ -100,10 +200,14 @@ export class ChatDatabase {
    * Used by fullReindex to avoid a close→open gap.
    */
   async wipeData(): Promise<void> {
-    await this.dropAllTables();
+    await this.dropDerivedTables();
     await this.ensureSchema();
   }
 
+  /**
+   * Create the derived tables at their current definition. Changing them
+   * needs a migration with `rebuildDerived` in schemaMigrations.ts.
+   */
   private async ensureSchema(): Promise<void> {
     await this.exec(`
       CREATE TABLE IF NOT EXISTS sessions (
@@ -120,7 +224,16 @@ export class ChatDatabase {
         file_size     INTEGER DEFAULT 0,
         storage_type  TEXT,
         workspace_path TEXT,
-        file_mtime    INTEGER DEFAULT 0
+        file_mtime    INTEGER DEFAULT 0,
+        installation  TEXT DEFAULT '',
+        profile       TEXT DEFAULT '',
+        source        TEXT DEFAULT 'vscode',
+        last_message_date    INTEGER DEFAULT 0,
+        last_request_started INTEGER DEFAULT 0,
+        last_request_ended   INTEGER DEFAULT 0,
+        is_empty      INTEGER DEFAULT 0,
+        is_external   INTEGER DEFAULT 0,
+        archived_at   INTEGER DEFAULT 0
       );
 
       CREATE TABLE IF NOT EXISTS turns (
@@ -150,7 +263,61 @@ export class ChatDatabase {
       );
 
       CREATE INDEX IF NOT EXISTS idx_annotations_kind_name ON annotations(kind, name);
+
+      CREATE TABLE IF NOT EXISTS tool_calls (
+        id                 INTEGER PRIMARY KEY,
+        turn_id            INTEGER NOT NULL REFERENCES turns(id) ON DELETE CASCADE,
+        ordinal            INTEGER NOT NULL,
+        tool_id            TEXT NOT NULL,
+        tool_call_id       TEXT DEFAULT '',
+        invocation_message TEXT DEFAULT '',
+        arguments          TEXT DEFAULT '',
+        tool_specific_data TEXT DEFAULT '',
+        result             TEXT DEFAULT '',
+        status             TEXT NOT NULL,
+        confirmation       TEXT DEFAULT '',
+        duration_ms        INTEGER DEFAULT 0
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_tool_calls_turn ON tool_calls(turn_id);
+      CREATE INDEX IF NOT EXISTS idx_tool_calls_tool_status ON tool_calls(tool_id, status);
+
+      CREATE TABLE IF NOT EXISTS response_parts (
+        id      INTEGER PRIMARY KEY,
+        turn_id INTEGER NOT NULL REFERENCES turns(id) ON DELETE CASCADE,
+        ordinal INTEGER NOT NULL,
+        kind    TEXT NOT NULL,
+        text    TEXT DEFAULT '',
+        payload TEXT NOT NULL,
+        UNIQUE(turn_id, ordinal)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_response_parts_kind ON response_parts(kind);
+
+      CREATE TABLE IF NOT EXISTS code_blocks (
+        id       INTEGER PRIMARY KEY,
+        turn_id  INTEGER NOT NULL REFERENCES turns(id) ON DELETE CASCADE,
+        ordinal  INTEGER NOT NULL,
+        language TEXT DEFAULT '',
+        content  TEXT NOT NULL,
+        uri      TEXT DEFAULT ''
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_code_blocks_turn ON code_blocks(turn_id);
       CREATE INDEX IF NOT EXISTS idx_turns_session ON turns(session_id);
+
+      CREATE TABLE IF NOT EXISTS replay_checkpoints (
+        file_path   TEXT PRIMARY KEY,
+        byte_offset INTEGER NOT NULL,
+        line_count  INTEGER NOT NULL,
+        head_hash   TEXT NOT NULL,
+        state       TEXT NOT NULL,
+        state_size  INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE TRIGGER IF NOT EXISTS sessions_ad AFTER DELETE ON sessions BEGIN
+        DELETE FROM replay_checkpoints WHERE file_path = old.file_path;
+      END;
     `);
 
   // FTS5 virtual table backed by the turns table (content=turns);
@@ -190,6 +357,46 @@ export class ChatDatabase {
         VALUES (new.id, new.prompt_text, new.response_text, new.agent, new.model);
       END;
     `);
+
+    // Session-level search text, keyed by the sessions rowid. The indexer
+    // rewrites a row once the session's turns and annotations are stored.
+    await this.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS sessions_fts USING fts5(
+        title,
+        attachments,
+        files,
+        tokenize='unicode61'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS sessions_fts_ad AFTER DELETE ON sessions BEGIN
+        DELETE FROM sessions_fts WHERE rowid = old.rowid;
+      END;
+    `);
+
+    // Trigram tokens match identifiers and path fragments anywhere, e.g. `useEffect(`.
+    // The trigram tokenizer needs SQLite 3.34+; without it code search is unavailable.
+    try {
+      await this.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS code_blocks_fts USING fts5(
+          content,
+          content=code_blocks,
+          content_rowid=id,
+          tokenize='trigram'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS code_blocks_ai AFTER INSERT ON code_blocks BEGIN
+          INSERT INTO code_blocks_fts(rowid, content) VALUES (new.id, new.content);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS code_blocks_ad AFTER DELETE ON code_blocks BEGIN
+          INSERT INTO code_blocks_fts(code_blocks_fts, rowid, content) VALUES ('delete', old.id, old.content);
+        END;
+      `);
+      this.codeSearchAvailable = true;
+    } catch (err) {
+      console.warn('Session Trace: code search index unavailable:', err);
+      this.codeSearchAvailable = false;
+    }
   }
 
   // ---------------------------------------------------------------------------
@@ -200,8 +407,10 @@ export class ChatDatabase {
     await this.run(
       `INSERT INTO sessions
         (session_id, file_path, title, creation_date, request_count, last_message,
-         model_ids, agents, total_tokens, has_votes, file_size, storage_type, workspace_path, file_mtime)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         model_ids, agents, total_tokens, has_votes, file_size, storage_type, workspace_path, file_mtime,
+         installation, profile, source, last_message_date, last_request_started, last_request_ended,
+         is_empty, is_external, archived_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
        ON CONFLICT(session_id) DO UPDATE SET
          file_path = excluded.file_path,
          title = excluded.title,
@@ -215,51 +424,213 @@ export class ChatDatabase {
          file_size = excluded.file_size,
          storage_type = excluded.storage_type,
          workspace_path = excluded.workspace_path,
-         file_mtime = excluded.file_mtime`,
+         file_mtime = excluded.file_mtime,
+         installation = excluded.installation,
+         profile = excluded.profile,
+         source = excluded.source,
+         last_message_date = excluded.last_message_date,
+         last_request_started = excluded.last_request_started,
+         last_request_ended = excluded.last_request_ended,
+         is_empty = excluded.is_empty,
+         is_external = excluded.is_external,
+         archived_at = excluded.archived_at`,
       s.sessionId, s.filePath, s.title || null, s.creationDate, s.requestCount,
       s.lastMessage || null, s.modelIds.join(','), s.agents.join(','),
       s.totalTokens, s.hasVotes ? 1 : 0, s.fileSize, s.storageType,
-      s.workspacePath, mtime,
+      s.workspacePath, mtime, s.installation, s.profile, s.source, s.lastMessageDate,
+      s.lastRequestStarted, s.lastRequestEnded, s.isEmpty ? 1 : 0, s.isExternal ? 1 : 0, s.archivedAt,
     );
   }
 
-  async listSessions(opts: {
-    maxAgeDays?: number;
-    storageType?: string;
-    workspacePath?: string;
+  async listSessions(opts: SessionListOptions & {
     limit?: number;
     offset?: number;
   } = {}): Promise<SessionSummary[]> {
     await this.waitForIndexing();
+    const { conditions, params } = ChatDatabase.sessionListConditions(opts);
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = (opts.limit && Number.isInteger(opts.limit) && opts.limit > 0) ? `LIMIT ${opts.limit}` : '';
+    const offset = (opts.offset && Number.isInteger(opts.offset) && opts.offset > 0) ? `OFFSET ${opts.offset}` : '';
+
+    const rows = await this.all<SessionRow>(
+      `SELECT * FROM sessions ${where} ORDER BY creation_date DESC ${limit} ${offset}`, ...params,
+    );
+    return rows.map(r => ChatDatabase.toSummary(r));
+  }
+
+  /** WHERE conditions on the sessions table (optionally aliased) for the tree's session filters. */
+  private static sessionListConditions(opts: SessionListOptions, alias = ''): { conditions: string[]; params: unknown[] } {
+    const p = alias ? `${alias}.` : '';
     const conditions: string[] = [];
     const params: unknown[] = [];
 
     if (opts.maxAgeDays && opts.maxAgeDays > 0) {
       const cutoff = Date.now() - opts.maxAgeDays * 86_400_000;
-      conditions.push('creation_date >= ?');
+      conditions.push(`${p}creation_date >= ?`);
       params.push(cutoff);
     }
     if (opts.storageType) {
-      conditions.push('storage_type = ?');
+      conditions.push(`${p}storage_type = ?`);
       params.push(opts.storageType);
     }
     if (opts.workspacePath) {
-      conditions.push('workspace_path = ?');
+      conditions.push(`${p}workspace_path = ?`);
       params.push(opts.workspacePath);
     }
+    if (opts.installation !== undefined) {
+      conditions.push(`${p}installation = ?`);
+      params.push(opts.installation);
+    }
+    if (opts.profile !== undefined) {
+      conditions.push(`${p}profile = ?`);
+      params.push(opts.profile);
+    }
+    if (opts.source) {
+      conditions.push(`${p}source = ?`);
+      params.push(opts.source);
+    }
+    if (opts.excludeEmpty) {
+      conditions.push(`NOT (${p}is_empty = 1 AND ${p}request_count = 0)`);
+    }
+    if (opts.archived !== undefined) {
+      conditions.push(opts.archived ? `${p}archived_at > 0` : `${p}archived_at = 0`);
+    }
+    if (opts.tag) {
+      // Qualified even without an alias; a bare session_id would resolve to st.session_id
+      const sessionId = alias ? `${alias}.session_id` : 'sessions.session_id';
+      conditions.push(`EXISTS (SELECT 1 FROM session_tags st WHERE st.session_id = ${sessionId} AND st.tag = ?)`);
+      params.push(opts.tag);
+    }
+    return { conditions, params };
+  }
 
-    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
-    const limit = (opts.limit && Number.isInteger(opts.limit) && opts.limit > 0) ? `LIMIT ${opts.limit}` : '';
-    const offset = (opts.offset && Number.isInteger(opts.offset) && opts.offset > 0) ? `OFFSET ${opts.offset}` : '';
+  // ---------------------------------------------------------------------------
+  // Files and tools used by conversations
+  // ---------------------------------------------------------------------------
 
-    const rows = await this.all<{
-      session_id: string; file_path: string; title: string | null;
-      creation_date: number; request_count: number; last_message: string | null;
-      model_ids: string; agents: string; total_tokens: number;
-      has_votes: number; file_size: number; storage_type: string; workspace_path: string;
-    }>(`SELECT * FROM sessions ${where} ORDER BY creation_date DESC ${limit} ${offset}`, ...params);
+  /** Annotation kinds that name a file a turn edited or referenced. */
+  private static readonly FILE_KINDS = ['file_edit', 'file_ref', 'codeblock'];
+
+  /**
+   * Every file named by a file annotation, per workspace of the sessions that
+   * touched it, with the number of turns that edited or referenced it.
+   */
+  async listFileActivity(opts: SessionListOptions = {}): Promise<FileActivity[]> {
+    await this.waitForIndexing();
+    const { conditions, params } = ChatDatabase.sessionListConditions(opts, 's');
+    const kinds = ChatDatabase.FILE_KINDS;
+    conditions.push(`a.kind IN (${kinds.map(() => '?').join(', ')})`, "a.uri != ''");
+    params.push(...kinds);
 
+    const rows = await this.all<{
+      uri: string; storage_type: string; workspace_path: string;
+      edits: number; references: number; sessions: number; last_date: number;
+    }>(
+      `SELECT a.uri, s.storage_type, s.workspace_path,
+              COUNT(DISTINCT CASE WHEN a.kind = 'file_edit' THEN a.turn_id END) AS edits,
+              COUNT(DISTINCT CASE WHEN a.kind != 'file_edit' THEN a.turn_id END) AS "references",
+              COUNT(DISTINCT t.session_id) AS sessions,
+              MAX(s.creation_date) AS last_date
+       FROM annotations a
+       JOIN turns t ON t.id = a.turn_id
+       JOIN sessions s ON s.session_id = t.session_id
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY a.uri, s.storage_type, s.workspace_path
+       ORDER BY last_date DESC`,
+      ...params,
+    );
     return rows.map(r => ({
+      uri: r.uri,
+      storageType: r.storage_type as SessionSummary['storageType'],
+      workspacePath: r.workspace_path,
+      edits: r.edits,
+      references: r.references,
+      sessions: r.sessions,
+      lastDate: r.last_date,
+    }));
+  }
+
+  /** Turns whose file annotations name any of `uris`, newest session first. */
+  async getFileTurns(uris: string[], opts: SessionListOptions = {}): Promise<FileTurn[]> {
+    if (uris.length === 0) { return []; }
+    await this.waitForIndexing();
+    const { conditions, params } = ChatDatabase.sessionListConditions(opts, 's');
+    const kinds = ChatDatabase.FILE_KINDS;
+    conditions.push(
+      `a.kind IN (${kinds.map(() => '?').join(', ')})`,
+      `a.uri IN (${uris.map(() => '?').join(', ')})`,
+    );
+    params.push(...kinds, ...uris);
+
+    const rows = await this.all<ActivityTurnRow & { kinds: string }>(
+      `SELECT t.session_id, s.title, s.last_message, s.creation_date,
+              t.turn_index, t.prompt_text, t.timestamp, GROUP_CONCAT(DISTINCT a.kind) AS kinds
+       FROM annotations a
+       JOIN turns t ON t.id = a.turn_id
+       JOIN sessions s ON s.session_id = t.session_id
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY t.id
+       ORDER BY s.creation_date DESC, t.turn_index`,
+      ...params,
+    );
+    return rows.map(r => ({ ...ChatDatabase.toActivityTurn(r), kinds: r.kinds ? r.kinds.split(',') : [] }));
+  }
+
+  /** Every tool called in the filtered sessions, most called first. */
+  async listToolActivity(opts: SessionListOptions = {}): Promise<ToolActivity[]> {
+    await this.waitForIndexing();
+    const { conditions, params } = ChatDatabase.sessionListConditions(opts, 's');
+    conditions.push("a.kind = 'tool'", "a.name != ''");
+
+    const rows = await this.all<{ name: string; invocations: number; sessions: number; last_used: number }>(
+      `SELECT a.name, COUNT(*) AS invocations, COUNT(DISTINCT t.session_id) AS sessions,
+              MAX(COALESCE(NULLIF(t.timestamp, 0), s.creation_date)) AS last_used
+       FROM annotations a
+       JOIN turns t ON t.id = a.turn_id
+       JOIN sessions s ON s.session_id = t.session_id
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY a.name
+       ORDER BY invocations DESC`,
+      ...params,
+    );
+    return rows.map(r => ({ name: r.name, invocations: r.invocations, sessions: r.sessions, lastUsed: r.last_used }));
+  }
+
+  /** Turns that called the tool `name`, newest session first. */
+  async getToolTurns(name: string, opts: SessionListOptions = {}): Promise<ToolTurn[]> {
+    await this.waitForIndexing();
+    const { conditions, params } = ChatDatabase.sessionListConditions(opts, 's');
+    conditions.push("a.kind = 'tool'", 'a.name = ?');
+    params.push(name);
+
+    const rows = await this.all<ActivityTurnRow & { invocations: number }>(
+      `SELECT t.session_id, s.title, s.last_message, s.creation_date,
+              t.turn_index, t.prompt_text, t.timestamp, COUNT(*) AS invocations
+       FROM annotations a
+       JOIN turns t ON t.id = a.turn_id
+       JOIN sessions s ON s.session_id = t.session_id
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY t.id
+       ORDER BY s.creation_date DESC, t.turn_index`,
+      ...params,
+    );
+    return rows.map(r => ({ ...ChatDatabase.toActivityTurn(r), invocations: r.invocations }));
+  }
+
+  private static toActivityTurn(r: ActivityTurnRow): ActivityTurn {
+    return {
+      sessionId: r.session_id,
+      sessionTitle: r.title || r.last_message || r.session_id.substring(0, 8),
+      creationDate: r.creation_date,
+      turnIndex: r.turn_index,
+      promptText: r.prompt_text || '',
+      timestamp: r.timestamp,
+    };
+  }
+
+  private static toSummary(r: SessionRow): SessionSummary {
+    return {
       sessionId: r.session_id,
       filePath: r.file_path,
       title: r.title || undefined,
@@ -273,7 +644,47 @@ export class ChatDatabase {
       fileSize: r.file_size,
       storageType: r.storage_type as SessionSummary['storageType'],
       workspacePath: r.workspace_path,
-    }));
+      installation: r.installation || '',
+      profile: r.profile || '',
+      source: r.source || 'vscode',
+      lastMessageDate: r.last_message_date || 0,
+      lastRequestStarted: r.last_request_started || 0,
+      lastRequestEnded: r.last_request_ended || 0,
+      isEmpty: r.is_empty === 1,
+      isExternal: r.is_external === 1,
+      archivedAt: r.archived_at || 0,
+    };
+  }
+
+  /** One indexed session by id, or undefined if it isn't indexed. */
+  async getSession(sessionId: string): Promise<SessionSummary | undefined> {
+    const row = await this.get<SessionRow>('SELECT * FROM sessions WHERE session_id = ?', sessionId);
+    return row ? ChatDatabase.toSummary(row) : undefined;
+  }
+
+  /** Distinct installation/profile pairs of VS Code sessions with their session counts. */
+  async listOrigins(): Promise<{ installation: string; profile: string; count: number }[]> {
+    await this.waitForIndexing();
+    const rows = await this.all<{ installation: string | null; profile: string | null; c: number }>(
+      `SELECT installation, profile, COUNT(*) as c FROM sessions WHERE source = 'vscode'
+       GROUP BY installation, profile ORDER BY installation, profile`,
+    );
+    return rows.map(r => ({ installation: r.installation || '', profile: r.profile || '', count: r.c }));
+  }
+
+  /** Distinct session sources with their session counts. */
+  async listSources(): Promise<{ source: string; count: number }[]> {
+    await this.waitForIndexing();
+    const rows = await this.all<{ source: string | null; c: number }>(
+      'SELECT source, COUNT(*) as c FROM sessions GROUP BY source ORDER BY source',
+    );
+    return rows.map(r => ({ source: r.source || 'vscode', count: r.c }));
+  }
+
+  async countArchivedSessions(): Promise<number> {
+    await this.waitForIndexing();
+    const row = await this.get<{ c: number }>('SELECT COUNT(*) as c FROM sessions WHERE archived_at > 0');
+    return row?.c ?? 0;
   }
 
   async deleteSessions(sessionIds: string[]): Promise<void> {
@@ -284,37 +695,271 @@ export class ChatDatabase {
 
   async deleteSessionsByFilePath(filePath: string, exceptSessionId?: string): Promise<void> {
     if (exceptSessionId) {
-      await this.run('DELETE FROM sessions WHERE file_path = ? AND session_id != ?', filePath, exceptSessionId);
+      await this.run('DELETE FROM sessions WHERE file_path = ? AND session_id != ? AND archived_at = 0', filePath, exceptSessionId);
       return;
     }
     await this.run('DELETE FROM sessions WHERE file_path = ?', filePath);
   }
 
+  /** filePath → sessionId for sessions whose file still exists (archived ones are left out). */
   async getAllSessionPaths(skipIndexingWait = false): Promise<Map<string, string>> {
     if (!skipIndexingWait) {
       await this.waitForIndexing();
     }
     const rows = await this.all<{ session_id: string; file_path: string }>(
-      'SELECT session_id, file_path FROM sessions',
+      'SELECT session_id, file_path FROM sessions WHERE archived_at = 0',
     );
     const map = new Map<string, string>();
     for (const r of rows) { map.set(r.file_path, r.session_id); }
     return map;
   }
 
-  /** Single bulk query returning filePath → stored mtime for all indexed sessions. */
+  /**
+   * filePath → the fields read from VS Code's session index, for live VS Code
+   * sessions: their id, title and empty flag.
+   */
+  async getSessionIndexFields(): Promise<Map<string, { sessionId: string; title: string; isEmpty: boolean }>> {
+    const rows = await this.all<{ session_id: string; file_path: string; title: string | null; is_empty: number }>(
+      `SELECT session_id, file_path, title, is_empty FROM sessions WHERE archived_at = 0 AND source = 'vscode'`,
+    );
+    const map = new Map<string, { sessionId: string; title: string; isEmpty: boolean }>();
+    for (const r of rows) { map.set(r.file_path, { sessionId: r.session_id, title: r.title || '', isEmpty: !!r.is_empty }); }
+    return map;
+  }
+
+  /** Single bulk query returning filePath → stored mtime for all live (non-archived) sessions. */
   async getAllSessionMtimes(skipIndexingWait = false): Promise<Map<string, number>> {
     if (!skipIndexingWait) {
       await this.waitForIndexing();
     }
     const rows = await this.all<{ file_path: string; file_mtime: number }>(
-      'SELECT file_path, file_mtime FROM sessions',
+      'SELECT file_path, file_mtime FROM sessions WHERE archived_at = 0',
     );
     const map = new Map<string, number>();
     for (const r of rows) { map.set(r.file_path, r.file_mtime); }
     return map;
   }
 
+  // ---------------------------------------------------------------------------
+  // Session archive
+  // ---------------------------------------------------------------------------
+
+  async getArchiveEntry(sessionId: string): Promise<ArchiveEntry | undefined> {
+    const row = await this.get<ArchiveRow>('SELECT * FROM session_archive WHERE session_id = ?', sessionId);
+    return row ? ChatDatabase.toArchiveEntry(row) : undefined;
+  }
+
+  async saveArchiveEntry(entry: ArchiveEntry): Promise<void> {
+    await this.run(
+      `INSERT OR REPLACE INTO session_archive
+        (session_id, file_path, source, archive_path, file_mtime, archived_at, summary)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      entry.sessionId, entry.filePath, entry.source, entry.archivePath,
+      entry.fileMtime, entry.archivedAt, JSON.stringify(entry.summary),
+    );
+  }
+
+  /**
+   * Live sessions with no archived copy and, with `includeChanged`, those
+   * whose file changed since the copy was taken.
+   */
+  async listSessionsToArchive(includeChanged = true): Promise<{ summary: SessionSummary; mtime: number }[]> {
+    const changed = includeChanged ? ' OR a.file_mtime != s.file_mtime' : '';
+    const rows = await this.all<SessionRow & { file_mtime: number }>(
+      `SELECT s.* FROM sessions s LEFT JOIN session_archive a ON a.session_id = s.session_id
+       WHERE s.archived_at = 0 AND (a.session_id IS NULL${changed})`,
+    );
+    return rows.map(r => ({ summary: ChatDatabase.toSummary(r), mtime: r.file_mtime }));
+  }
+
+  /** Archived sessions that are missing from the index, e.g. after a rebuild. */
+  async listArchivedNotIndexed(): Promise<ArchiveEntry[]> {
+    const rows = await this.all<ArchiveRow>(
+      `SELECT a.* FROM session_archive a LEFT JOIN sessions s ON s.session_id = a.session_id
+       WHERE a.archived_at > 0 AND s.session_id IS NULL`,
+    );
+    return rows.map(r => ChatDatabase.toArchiveEntry(r));
+  }
+
+  /**
+   * Keep sessions whose files were deleted: mark them archived instead of
+   * deleting their rows. Returns the ids that have an archived copy; the
+   * rest are left for the caller to delete.
+   */
+  async archiveSessions(sessionIds: string[], archivedAt: number): Promise<string[]> {
+    if (sessionIds.length === 0) { return []; }
+    const placeholders = sessionIds.map(() => '?').join(',');
+    const rows = await this.all<{ session_id: string }>(
+      `SELECT session_id FROM session_archive WHERE session_id IN (${placeholders})`, ...sessionIds,
+    );
+    const archived = rows.map(r => r.session_id);
+    if (archived.length === 0) { return []; }
+    const archivedPlaceholders = archived.map(() => '?').join(',');
+    await this.run(
+      `UPDATE sessions SET archived_at = ? WHERE session_id IN (${archivedPlaceholders})`, archivedAt, ...archived,
+    );
+    await this.run(
+      `UPDATE session_archive SET archived_at = ? WHERE session_id IN (${archivedPlaceholders})`, archivedAt, ...archived,
+    );
+    return archived;
+  }
+
+  private static toArchiveEntry(r: ArchiveRow): ArchiveEntry {
+    return {
+      sessionId: r.session_id,
+      filePath: r.file_path,
+      source: r.source,
+      archivePath: r.archive_path,
+      fileMtime: r.file_mtime,
+      archivedAt: r.archived_at || 0,
+      summary: JSON.parse(r.summary) as SessionSummary,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tags, stars and notes
+  // ---------------------------------------------------------------------------
+
+  /** Tags and notes of every session that has any, by session id. */
+  async listSessionMarks(): Promise<Map<string, SessionMarks>> {
+    const [tags, notes] = await Promise.all([
+      this.all<{ session_id: string; tag: string }>('SELECT session_id, tag FROM session_tags ORDER BY tag'),
+      this.all<{ session_id: string; note: string }>('SELECT session_id, note FROM session_notes'),
+    ]);
+    const marks = new Map<string, SessionMarks>();
+    const get = (id: string) => {
+      let m = marks.get(id);
+      if (!m) {
+        m = { tags: [], note: '' };
+        marks.set(id, m);
+      }
+      return m;
+    };
+    for (const t of tags) { get(t.session_id).tags.push(t.tag); }
+    for (const n of notes) { get(n.session_id).note = n.note; }
+    return marks;
+  }
+
+  async getSessionMarks(sessionId: string): Promise<SessionMarks> {
+    const [tags, note] = await Promise.all([
+      this.all<{ tag: string }>('SELECT tag FROM session_tags WHERE session_id = ? ORDER BY tag', sessionId),
+      this.get<{ note: string }>('SELECT note FROM session_notes WHERE session_id = ?', sessionId),
+    ]);
+    return { tags: tags.map(t => t.tag), note: note?.note ?? '' };
+  }
+
+  /** Replace a session's tags, keeping the creation time of tags it already had. */
+  async setSessionTags(sessionId: string, tags: string[]): Promise<void> {
+    const unique = [...new Set(tags)];
+    const placeholders = unique.map(() => '?').join(', ');
+    await this.beginTransaction();
+    try {
+      await this.run(
+        `DELETE FROM session_tags WHERE session_id = ?${unique.length > 0 ? ` AND tag NOT IN (${placeholders})` : ''}`,
+        sessionId, ...unique,
+      );
+      const now = Date.now();
+      for (const tag of unique) {
+        await this.run('INSERT OR IGNORE INTO session_tags (session_id, tag, created_at) VALUES (?, ?, ?)', sessionId, tag, now);
+      }
+      await this.commit();
+    } catch (err) {
+      await this.rollback().catch(() => {/* already rolled back */});
+      throw err;
+    }
+  }
+
+  async addSessionTag(sessionId: string, tag: string): Promise<void> {
+    await this.run(
+      'INSERT OR IGNORE INTO session_tags (session_id, tag, created_at) VALUES (?, ?, ?)', sessionId, tag, Date.now(),
+    );
+  }
+
+  async removeSessionTag(sessionId: string, tag: string): Promise<void> {
+    await this.run('DELETE FROM session_tags WHERE session_id = ? AND tag = ?', sessionId, tag);
+  }
+
+  /**
+   * Tags of indexed sessions with the number of sessions carrying each, most
+   * used first. Tags of sessions that are no longer indexed aren't counted.
+   */
+  async listTags(): Promise<{ tag: string; count: number }[]> {
+    return this.all<{ tag: string; count: number }>(
+      `SELECT g.tag, COUNT(*) AS count FROM session_tags g
+       JOIN sessions s ON s.session_id = g.session_id
+       GROUP BY g.tag ORDER BY count DESC, g.tag`,
+    );
+  }
+
+  /** Set a session's note; an empty note removes it. */
+  async setSessionNote(sessionId: string, note: string): Promise<void> {
+    if (!note.trim()) {
+      await this.run('DELETE FROM session_notes WHERE session_id = ?', sessionId);
+      return;
+    }
+    await this.run(
+      'INSERT OR REPLACE INTO session_notes (session_id, note, updated_at) VALUES (?, ?, ?)', sessionId, note, Date.now(),
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Replay checkpoints
+  // ---------------------------------------------------------------------------
+
+  async getReplayCheckpoint(filePath: string): Promise<ReplayCheckpoint | undefined> {
+    const row = await this.get<{ byte_offset: number; line_count: number; head_hash: string; state: string }>(
+      'SELECT byte_offset, line_count, head_hash, state FROM replay_checkpoints WHERE file_path = ?',
+      filePath,
+    );
+    if (!row) { return undefined; }
+    try {
+      return {
+        byteOffset: row.byte_offset,
+        lineCount: row.line_count,
+        headHash: row.head_hash,
+        state: JSON.parse(row.state) as SerializableChatData,
+      };
+    } catch {
+      return undefined;
+    }
+  }
+
+  async saveReplayCheckpoint(filePath: string, checkpoint: ReplayCheckpoint): Promise<void> {
+    const state = JSON.stringify(checkpoint.state);
+    await this.run(
+      `INSERT OR REPLACE INTO replay_checkpoints (file_path, byte_offset, line_count, head_hash, state, state_size)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      filePath, checkpoint.byteOffset, checkpoint.lineCount, checkpoint.headHash,
+      state, Buffer.byteLength(state),
+    );
+  }
+
+  /**
+   * Keep checkpoints only for the `maxFiles` most recently modified session
+   * files, and drop older ones once their states add up to `maxBytes`. The
+   * most recent checkpoint is always kept, however large.
+   */
+  async pruneReplayCheckpoints(maxFiles: number, maxBytes: number): Promise<void> {
+    await this.run(
+      `DELETE FROM replay_checkpoints WHERE file_path IN (
+         SELECT file_path FROM (
+           SELECT c.file_path,
+                  ROW_NUMBER() OVER w AS n,
+                  SUM(c.state_size) OVER w AS total
+           FROM replay_checkpoints c
+           LEFT JOIN sessions s ON s.file_path = c.file_path
+           WINDOW w AS (ORDER BY COALESCE(s.file_mtime, 0) DESC, c.file_path)
+         )
+         WHERE n > ? OR (n > 1 AND total > ?)
+       )`,
+      maxFiles, maxBytes,
+    );
+  }
+
+  async deleteReplayCheckpoint(filePath: string): Promise<void> {
+    await this.run('DELETE FROM replay_checkpoints WHERE file_path = ?', filePath);
+  }
+
   // ---------------------------------------------------------------------------
   // Turn CRUD
   // ---------------------------------------------------------------------------
@@ -391,6 +1036,119 @@ export class ChatDatabase {
     }
   }
 
+  /**
+   * Rebuild the session's sessions_fts row from its title and the attachment
+   * names and file URIs in its annotations.
+   */
+  async refreshSessionSearch(sessionId: string): Promise<void> {
+    const distinctAnnotations = (column: string, kinds: string) => `
+      COALESCE((SELECT group_concat(${column}, ' ') FROM (
+        SELECT DISTINCT a.${column} FROM annotations a JOIN turns t ON t.id = a.turn_id
+        WHERE t.session_id = ? AND a.kind IN (${kinds}) AND a.${column} != ''
+      )), '')`;
+    await this.run(`
+      INSERT OR REPLACE INTO sessions_fts(rowid, title, attachments, files)
+      SELECT s.rowid, COALESCE(s.title, ''),
+        ${distinctAnnotations('name', `'attachment'`)},
+        ${distinctAnnotations('uri', `'attachment', 'file_ref', 'file_edit', 'codeblock'`)}
+      FROM sessions s WHERE s.session_id = ?
+    `, sessionId, sessionId, sessionId);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tool calls
+  // ---------------------------------------------------------------------------
+
+  async addToolCalls(turnId: number, toolCalls: ExtractedToolCall[]): Promise<void> {
+    const stmt = `INSERT INTO tool_calls
+      (turn_id, ordinal, tool_id, tool_call_id, invocation_message, arguments, tool_specific_data,
+       result, status, confirmation, duration_ms)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+    for (const c of toolCalls) {
+      await this.run(
+        stmt, turnId, c.ordinal, c.toolId, c.toolCallId, c.invocationMessage, c.arguments,
+        c.toolSpecificData, c.result, c.status, c.confirmation, c.durationMs,
+      );
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Response parts
+  // ---------------------------------------------------------------------------
+
+  async addResponseParts(turnId: number, parts: ExtractedResponsePart[]): Promise<void> {
+    const stmt = 'INSERT INTO response_parts (turn_id, ordinal, kind, text, payload) VALUES (?, ?, ?, ?, ?)';
+    for (const p of parts) {
+      await this.run(stmt, turnId, p.ordinal, p.kind, p.text, p.payload);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Code blocks
+  // ---------------------------------------------------------------------------
+
+  async addCodeBlocks(turnId: number, blocks: ExtractedCodeBlock[]): Promise<void> {
+    const stmt = 'INSERT INTO code_blocks (turn_id, ordinal, language, content, uri) VALUES (?, ?, ?, ?, ?)';
+    for (const b of blocks) {
+      await this.run(stmt, turnId, b.ordinal, b.language, b.content, b.uri);
+    }
+  }
+
+  async getCodeBlock(id: number): Promise<{ language: string; content: string } | undefined> {
+    return this.get<{ language: string; content: string }>('SELECT language, content FROM code_blocks WHERE id = ?', id);
+  }
+
+  /**
+   * Substring search over code blocks. Each whitespace-separated term must
+   * occur literally (case-insensitive); terms need at least 3 characters to
+   * use the trigram index.
+   */
+  async searchCode(query: string, opts: { language?: string; limit?: number } = {}): Promise<CodeSearchResult[]> {
+    await this.waitForIndexing();
+    const terms = query.trim().split(/\s+/).filter(t => t.length >= 3);
+    if (!this.codeSearchAvailable || terms.length === 0) { return []; }
+    const ftsQuery = terms.map(t => `"${t.replace(/"/g, '""')}"`).join(' AND ');
+
+    const params: unknown[] = [ftsQuery];
+    let languageFilter = '';
+    if (opts.language) {
+      languageFilter = 'AND c.language = ?';
+      params.push(opts.language.toLowerCase());
+    }
+
+    const rows = await this.all<{
+      id: number; language: string; content: string; uri: string;
+      session_id: string; file_path: string; title: string | null; workspace_path: string;
+      turn_index: number; prompt_text: string; timestamp: number;
+    }>(`
+      SELECT
+        c.id, c.language, c.content, c.uri,
+        s.session_id, s.file_path, s.title, s.workspace_path,
+        t.turn_index, t.prompt_text, t.timestamp
+      FROM code_blocks_fts
+      JOIN code_blocks c ON c.id = code_blocks_fts.rowid
+      JOIN turns t ON t.id = c.turn_id
+      JOIN sessions s ON s.session_id = t.session_id
+      WHERE code_blocks_fts MATCH ? ${languageFilter}
+      ORDER BY code_blocks_fts.rank
+      LIMIT ?
+    `, ...params, opts.limit || 30);
+
+    return rows.map(r => ({
+      id: r.id,
+      sessionId: r.session_id,
+      filePath: r.file_path,
+      sessionTitle: r.title || '',
+      workspacePath: r.workspace_path || '',
+      turnIndex: r.turn_index,
+      promptText: r.prompt_text || '',
+      timestamp: r.timestamp || 0,
+      language: r.language || '',
+      content: r.content,
+      uri: r.uri || '',
+    }));
+  }
+
   async queryAnnotations(opts: {
     kind?: string;
     name?: string;
@@ -420,7 +1178,8 @@ export class ChatDatabase {
     const limit = (opts.limit && Number.isInteger(opts.limit) && opts.limit > 0) ? `LIMIT ${opts.limit}` : 'LIMIT 100';
 
     return this.all<AnnotationRow>(
-      `SELECT a.* FROM annotations a ${join} ${where} ORDER BY a.id DESC ${limit}`,
+      `SELECT a.id, a.turn_id AS turnId, a.kind, a.name, a.uri, a.detail
+       FROM annotations a ${join} ${where} ORDER BY a.id DESC ${limit}`,
       ...params,
     );
   }
@@ -429,71 +1188,62 @@ export class ChatDatabase {
   // FTS5 search
   // ---------------------------------------------------------------------------
 
+  /** BM25 weights for sessions_fts columns: title, attachments, files. */
+  private static readonly SESSION_FTS_WEIGHTS = [10.0, 5.0, 3.0];
+  /**
+   * Reciprocal rank fusion constant. Turn and session hits come from different
+   * FTS tables whose BM25 scores aren't comparable, so the two lists are merged
+   * by position: a hit at position p (0-based) scores 1 / (RRF_K + p) in its
+   * list, and a session found by both sums its scores.
+   */
+  private static readonly RRF_K = 60;
+
   async search(query: string, opts: {
-    scope?: string;
-    daysBack?: number;
+    filters?: SearchFilters;
     limit?: number;
   } = {}): Promise<SearchResult[]> {
     await this.waitForIndexing();
-    if (!query.trim()) { return []; }
+    const filters = opts.filters ?? {};
 
     // Build FTS5 match expression: add * for prefix matching on each term.
-    // Preserve FTS5 boolean operators (OR, NOT, AND) when present.
+    // Quoted phrases match exactly. Preserve FTS5 boolean operators (OR, NOT, AND) when present.
     const FTS_OPERATORS = new Set(['OR', 'NOT', 'AND']);
-    const tokens = query.trim()
-      .split(/\s+/)
-      .map(term => FTS_OPERATORS.has(term.toUpperCase())
-        ? term.toUpperCase()
-        : `"${term.replace(/"/g, '""')}"*`);
+    const tokens = (query.trim().match(/"[^"]*"?|\S+/g) ?? [])
+      .map(term => term.startsWith('"')
+        ? `"${term.replace(/^"|"$/g, '').replace(/"/g, '""')}"`
+        : FTS_OPERATORS.has(term.toUpperCase())
+          ? term.toUpperCase()
+          : `"${term.replace(/"/g, '""')}"*`)
+      .filter(term => term !== '""');
     // Strip leading/trailing bare operators (e.g. "OR term" → "term")
     while (tokens.length > 0 && FTS_OPERATORS.has(tokens[0])) { tokens.shift(); }
     while (tokens.length > 0 && FTS_OPERATORS.has(tokens[tokens.length - 1])) { tokens.pop(); }
     const ftsQuery = tokens.join(' ');
-    if (!ftsQuery) { return []; }
 
-    const conditions: string[] = [];
-    const params: unknown[] = [ftsQuery];
+    const turnFilter = ChatDatabase.turnFilterSql(filters, 't');
+    const sessionFilter = ChatDatabase.sessionFilterSql(filters);
+    if (!ftsQuery && turnFilter.conditions.length === 0 && sessionFilter.conditions.length === 0) { return []; }
 
-    if (opts.scope) {
-      conditions.push('s.workspace_path = ?');
-      params.push(opts.scope);
-    }
-    if (opts.daysBack && opts.daysBack > 0) {
-      const cutoff = Date.now() - opts.daysBack * 86_400_000;
-      conditions.push('t.timestamp >= ?');
-      params.push(cutoff);
-    }
-
-    const extraWhere = conditions.length > 0 ? `AND ${conditions.join(' AND ')}` : '';
+    const extraWhere = [...sessionFilter.conditions, ...turnFilter.conditions].map(c => `AND ${c}`).join(' ');
+    const filterParams = [...sessionFilter.params, ...turnFilter.params];
     const limit = opts.limit || 20;
+    // Column 0 is prompt_text, 1 is response_text; snippets are up to 24 tokens
+    const snippetArgs = `'${SNIPPET_OPEN}', '${SNIPPET_CLOSE}', '…', 24`;
 
-    const rows = await this.all<{
+    type Row = {
       session_id: string; file_path: string; title: string | null;
       workspace_path: string; storage_type: string;
-      turn_index: number; prompt_text: string; response_text: string;
-      agent: string; model: string; timestamp: number; duration_ms: number;
+      turn_index: number | null; prompt_text: string | null; response_text: string | null;
+      agent: string | null; model: string | null; timestamp: number | null; duration_ms: number | null;
       rank: number;
-    }>(`
-      SELECT
-        s.session_id, s.file_path, s.title, s.workspace_path, s.storage_type,
-        t.turn_index, t.prompt_text, t.response_text,
-        t.agent, t.model, t.timestamp, t.duration_ms,
-        turns_fts.rank
-      FROM turns_fts
-      JOIN turns t ON t.id = turns_fts.rowid
-      JOIN sessions s ON s.session_id = t.session_id
-      WHERE turns_fts MATCH ? ${extraWhere}
-      ORDER BY turns_fts.rank
-      LIMIT ?
-    `, ...params, limit);
-
-    return rows.map(r => ({
+    };
+    const toResult = (r: Row, snippets: [SearchMatch['column'], string | null][]): SearchResult => ({
       sessionId: r.session_id,
       filePath: r.file_path,
       sessionTitle: r.title || '',
       workspacePath: r.workspace_path || '',
       storageType: r.storage_type || '',
-      turnIndex: r.turn_index,
+      turnIndex: r.turn_index || 0,
       promptText: r.prompt_text || '',
       responseText: r.response_text || '',
       agent: r.agent || '',
@@ -501,7 +1251,149 @@ export class ChatDatabase {
       timestamp: r.timestamp || 0,
       durationMs: r.duration_ms || 0,
       rank: r.rank,
+      matches: snippets
+        // snippet() returns the column's start when the match was elsewhere
+        .filter(([, raw]) => raw?.includes(SNIPPET_OPEN))
+        .map(([column, raw]) => ({ column, ...parseSnippet(raw!) })),
+    });
+
+    // Filters alone list the most recent matching turns
+    if (!ftsQuery) {
+      const rows = await this.all<Row>(`
+        SELECT
+          s.session_id, s.file_path, s.title, s.workspace_path, s.storage_type,
+          t.turn_index, t.prompt_text, t.response_text,
+          t.agent, t.model, t.timestamp, t.duration_ms,
+          0 AS rank
+        FROM turns t
+        JOIN sessions s ON s.session_id = t.session_id
+        WHERE 1 ${extraWhere}
+        ORDER BY t.timestamp DESC
+        LIMIT ?
+      `, ...filterParams, limit);
+      return rows.map(r => toResult(r, []));
+    }
+
+    const turnRows = await this.all<Row & { prompt_snippet: string | null; response_snippet: string | null }>(`
+      SELECT
+        s.session_id, s.file_path, s.title, s.workspace_path, s.storage_type,
+        t.turn_index, t.prompt_text, t.response_text,
+        t.agent, t.model, t.timestamp, t.duration_ms,
+        turns_fts.rank,
+        snippet(turns_fts, 0, ${snippetArgs}) AS prompt_snippet,
+        snippet(turns_fts, 1, ${snippetArgs}) AS response_snippet
+      FROM turns_fts
+      JOIN turns t ON t.id = turns_fts.rowid
+      JOIN sessions s ON s.session_id = t.session_id
+      WHERE turns_fts MATCH ? ${extraWhere}
+      ORDER BY turns_fts.rank
+      LIMIT ?
+    `, ftsQuery, ...filterParams, limit);
+
+    // Turn filters on a session-level hit: some turn of the session must pass them
+    const anyTurn = ChatDatabase.turnFilterSql(filters, 'ft');
+    const sessionWhere = [
+      ...sessionFilter.conditions,
+      ...(anyTurn.conditions.length > 0
+        ? [`EXISTS (SELECT 1 FROM turns ft WHERE ft.session_id = s.session_id AND ${anyTurn.conditions.join(' AND ')})`]
+        : []),
+    ].map(c => `AND ${c}`).join(' ');
+
+    // Session-level hits (title, attachment names, file paths), ranked among
+    // themselves by column weight and shown on the session's first turn
+    const sessionRows = await this.all<Row & { title_snippet: string | null; attachments_snippet: string | null; files_snippet: string | null }>(`
+      SELECT
+        s.session_id, s.file_path, s.title, s.workspace_path, s.storage_type,
+        t.turn_index, t.prompt_text, t.response_text,
+        t.agent, t.model, COALESCE(t.timestamp, s.creation_date) AS timestamp, t.duration_ms,
+        bm25(sessions_fts, ${ChatDatabase.SESSION_FTS_WEIGHTS.join(', ')}) AS rank,
+        snippet(sessions_fts, 0, ${snippetArgs}) AS title_snippet,
+        snippet(sessions_fts, 1, ${snippetArgs}) AS attachments_snippet,
+        snippet(sessions_fts, 2, ${snippetArgs}) AS files_snippet
+      FROM sessions_fts
+      JOIN sessions s ON s.rowid = sessions_fts.rowid
+      LEFT JOIN turns t ON t.session_id = s.session_id AND t.turn_index = 0
+      WHERE sessions_fts MATCH ? ${sessionWhere}
+      ORDER BY rank
+      LIMIT ?
+    `, ftsQuery, ...sessionFilter.params, ...anyTurn.params, limit);
+
+    // Merge by position in each list (see RRF_K); rank stays lower-is-better
+    const fused = (position: number) => -1 / (ChatDatabase.RRF_K + position);
+    const results = turnRows.map((r, i) => ({
+      ...toResult(r, [['prompt', r.prompt_snippet], ['response', r.response_snippet]]),
+      rank: fused(i),
+    }));
+    sessionRows.forEach((r, i) => {
+      const hit = toResult(r, [['title', r.title_snippet], ['attachments', r.attachments_snippet], ['files', r.files_snippet]]);
+      // Fold into the session's best turn hit rather than listing the session twice
+      const existing = results.find(x => x.sessionId === hit.sessionId);
+      if (existing) {
+        existing.matches.push(...hit.matches);
+        existing.rank += fused(i);
+      } else {
+        results.push({ ...hit, rank: fused(i) });
+      }
+    });
+    return results.sort((a, b) => a.rank - b.rank).slice(0, limit);
+  }
+
+  /** SQL conditions for the session-level search filters, on sessions alias `s`. */
+  private static sessionFilterSql(f: SearchFilters): { conditions: string[]; params: unknown[] } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (f.workspaceId) {
+      conditions.push('s.workspace_path = ?');
+      params.push(f.workspaceId);
+    }
+    ChatDatabase.pushAnyLike(conditions, params, ['s.workspace_path'], f.workspaces);
+    return { conditions, params };
+  }
+
+  /** SQL conditions for the turn-level search filters, on turns alias `t`. */
+  private static turnFilterSql(f: SearchFilters, t: string): { conditions: string[]; params: unknown[] } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    ChatDatabase.pushAnyLike(conditions, params, [`${t}.model`], f.models);
+    ChatDatabase.pushAnyLike(conditions, params, [`${t}.agent`], f.agents);
+    if (f.tools?.length) {
+      const like = f.tools.map(() => `c.tool_id LIKE ? ESCAPE '\\'`).join(' OR ');
+      conditions.push(`EXISTS (SELECT 1 FROM tool_calls c WHERE c.turn_id = ${t}.id AND (${like}))`);
+      params.push(...f.tools.map(likePattern));
+    }
+    if (f.files?.length) {
+      const like = f.files.map(() => `a.name LIKE ? ESCAPE '\\' OR a.uri LIKE ? ESCAPE '\\'`).join(' OR ');
+      conditions.push(`EXISTS (SELECT 1 FROM annotations a WHERE a.turn_id = ${t}.id
+        AND a.kind IN ('attachment', 'file_ref', 'file_edit', 'codeblock') AND (${like}))`);
+      params.push(...f.files.flatMap(v => [likePattern(v), likePattern(v)]));
+    }
+    if (f.after !== undefined) {
+      conditions.push(`${t}.timestamp >= ?`);
+      params.push(f.after);
+    }
+    if (f.before !== undefined) {
+      conditions.push(`${t}.timestamp < ?`);
+      params.push(f.before);
+    }
+    if (f.vote === 'up') {
+      conditions.push(`${t}.vote = 1`);
+    } else if (f.vote === 'down') {
+      conditions.push(`${t}.vote IS NOT NULL AND ${t}.vote != 1`);
+    }
+    if (f.hasError) {
+      conditions.push(`EXISTS (SELECT 1 FROM tool_calls c WHERE c.turn_id = ${t}.id AND c.status = 'error')`);
+    }
+    return { conditions, params };
+  }
+
+  /** Add "any of `values` is a substring of any of `columns`" (case-insensitive). */
+  private static pushAnyLike(conditions: string[], params: unknown[], columns: string[], values: string[] | undefined): void {
+    if (!values?.length) { return; }
+    const parts = values.flatMap(v => columns.map(col => {
+      params.push(likePattern(v));
+      return `${col} LIKE ? ESCAPE '\\'`;
     }));
+    conditions.push(`(${parts.join(' OR ')})`);
   }
 
   // ---------------------------------------------------------------------------
@@ -550,15 +1442,23 @@ export class ChatDatabase {
   // Stats
   // ---------------------------------------------------------------------------
 
-  async getStats(): Promise<{ sessions: number; turns: number; annotations: number }> {
+  async getStats(): Promise<{
+    sessions: number; turns: number; annotations: number; toolCalls: number; responseParts: number; codeBlocks: number;
+  }> {
     await this.waitForIndexing();
     const s = await this.get<{ c: number }>('SELECT COUNT(*) as c FROM sessions');
     const t = await this.get<{ c: number }>('SELECT COUNT(*) as c FROM turns');
     const a = await this.get<{ c: number }>('SELECT COUNT(*) as c FROM annotations');
+    const tc = await this.get<{ c: number }>('SELECT COUNT(*) as c FROM tool_calls');
+    const rp = await this.get<{ c: number }>('SELECT COUNT(*) as c FROM response_parts');
+    const cb = await this.get<{ c: number }>('SELECT COUNT(*) as c FROM code_blocks');
     return {
       sessions: s?.c || 0,
       turns: t?.c || 0,
       annotations: a?.c || 0,
+      toolCalls: tc?.c || 0,
+      responseParts: rp?.c || 0,
+      codeBlocks: cb?.c || 0,
     };
   }
 
@@ -569,7 +1469,9 @@ export class ChatDatabase {
    */
   async describe(): Promise<Record<string, unknown>> {
     await this.waitForIndexing();
-    const [stats, kinds, models, agents, dateRange, topTools] = await Promise.all([
+    const [
+      stats, kinds, models, agents, dateRange, topTools, sources, toolStatus, partKinds, codeLanguages, tags,
+    ] = await Promise.all([
       this.getStats(),
       this.all<{ kind: string; c: number }>(
         'SELECT kind, COUNT(*) as c FROM annotations GROUP BY kind ORDER BY c DESC',
@@ -586,6 +1488,19 @@ export class ChatDatabase {
       this.all<{ name: string; c: number }>(
         `SELECT name, COUNT(*) as c FROM annotations WHERE kind='tool' GROUP BY name ORDER BY c DESC LIMIT 15`,
       ),
+      this.all<{ source: string; c: number }>(
+        'SELECT source, COUNT(*) as c FROM sessions GROUP BY source ORDER BY c DESC',
+      ),
+      this.all<{ status: string; c: number }>(
+        'SELECT status, COUNT(*) as c FROM tool_calls GROUP BY status ORDER BY c DESC',
+      ),
+      this.all<{ kind: string; c: number }>(
+        'SELECT kind, COUNT(*) as c FROM response_parts GROUP BY kind ORDER BY c DESC',
+      ),
+      this.all<{ language: string; c: number }>(
+        `SELECT language, COUNT(*) as c FROM code_blocks WHERE language != '' GROUP BY language ORDER BY c DESC LIMIT 15`,
+      ),
+      this.listTags(),
     ]);
 
     const kindNames = new Set(kinds.map(k => k.kind));
@@ -599,6 +1514,19 @@ export class ChatDatabase {
     } else {
       hints.push('Tool annotations (kind=\'tool\') are not yet populated. Re-index to populate them, or use FTS text search: query parameter with tool names like "mcp_github OR mcp_perplexity".');
     }
+    if (stats.responseParts > 0) {
+      hints.push('response_parts keeps every response part in order, including kinds not extracted into response_text. A turn in order: SELECT ordinal, kind, text, payload FROM response_parts WHERE turn_id = <turn id> ORDER BY ordinal; fields of a kind: json_extract(payload, \'$.<field>\').');
+    }
+    if (stats.codeBlocks > 0) {
+      hints.push('Code blocks are in code_blocks (language, content, uri) with a trigram FTS index for identifier and path fragments: SELECT c.language, c.content FROM code_blocks_fts JOIN code_blocks c ON c.id = code_blocks_fts.rowid WHERE code_blocks_fts MATCH \'"useEffect("\' LIMIT 20');
+    }
+    if (stats.toolCalls > 0) {
+      hints.push('tool_calls has one row per tool invocation with JSON arguments, result and status. Failed terminal commands: SELECT json_extract(c.arguments, \'$.command\') cmd, c.result, t.timestamp FROM tool_calls c JOIN turns t ON t.id = c.turn_id WHERE c.tool_id = \'run_in_terminal\' AND c.status = \'error\' ORDER BY t.timestamp DESC');
+    }
+
+    if (tags.length > 0) {
+      hints.push('The user tagged sessions in session_tags (tag \'starred\' marks starred sessions) and may have written notes in session_notes. Sessions with a tag: SELECT s.title, n.note FROM session_tags g JOIN sessions s ON s.session_id = g.session_id LEFT JOIN session_notes n ON n.session_id = s.session_id WHERE g.tag = \'<tag>\'');
+    }
 
     return {
       tableCounts: stats,
@@ -606,6 +1534,11 @@ export class ChatDatabase {
       topTools: topTools.map(t => ({ name: t.name, count: t.c })),
       topModels: models.map(m => ({ model: m.model, count: m.c })),
       topAgents: agents.map(a => ({ agent: a.agent, count: a.c })),
+      sources: sources.map(s => ({ source: s.source, count: s.c })),
+      toolCallStatus: toolStatus.map(s => ({ status: s.status, count: s.c })),
+      responsePartKinds: partKinds.map(k => ({ kind: k.kind, count: k.c })),
+      codeBlockLanguages: codeLanguages.map(l => ({ language: l.language, count: l.c })),
+      userTags: tags.slice(0, 20),
       dateRange: dateRange
         ? { earliest: dateRange.earliest, latest: dateRange.latest }
         : null,
@@ -644,15 +1577,37 @@ export class ChatDatabase {
   }
 
   async beginTransaction(): Promise<void> {
-    await this.run('BEGIN IMMEDIATE');
+    const previous = this.transactionLock;
+    let release!: () => void;
+    this.transactionLock = new Promise((resolve) => { release = resolve; });
+    await previous;
+    try {
+      await this.run('BEGIN IMMEDIATE');
+    } catch (err) {
+      release();
+      throw err;
+    }
+    this.releaseTransaction = release;
   }
 
+  /** A failed commit keeps the transaction open; the caller rolls back. */
   async commit(): Promise<void> {
     await this.run('COMMIT');
+    this.endTransaction();
   }
 
   async rollback(): Promise<void> {
-    await this.run('ROLLBACK');
+    try {
+      await this.run('ROLLBACK');
+    } finally {
+      this.endTransaction();
+    }
+  }
+
+  private endTransaction(): void {
+    const release = this.releaseTransaction;
+    this.releaseTransaction = null;
+    release?.();
   }
 
   private async waitForIndexing(): Promise<void> {
@@ -667,3 +1622,8 @@ export class ChatDatabase {
     });
   }
 }
+
+/** LIKE pattern matching `value` anywhere, with `%`, `_` and `\` escaped. */
+function likePattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+}
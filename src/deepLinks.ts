@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import { ChatDatabase } from './database';
+import { MessageItem } from './sessionTreeView';
+
+/**
+ * Shareable links into the session index, handled by VS Code's URI handler:
+ *
+ *   vscode://digitarald.vscode-session-trace/session/<sessionId>?turn=3
+ *   vscode://digitarald.vscode-session-trace/search?q=model:gpt-4o%20retry
+ *
+ * `turn` is 1-based, as turns are numbered in the UI and in `sessiontrace:`
+ * document URIs. Everything after `/session/` is the (percent-encoded) id,
+ * which may itself contain slashes. Session links open the
+ * rendered session at that turn; search links open Search Conversations with
+ * the query filled in. Links only resolve on machines that indexed the session.
+ */
+
+export function turnLink(extensionId: string, sessionId: string, turnIndex?: number): string {
+  // Built by hand: Uri.toString() would percent-encode the `=` in the query
+  const query = turnIndex !== undefined ? `?turn=${turnIndex + 1}` : '';
+  return `${vscode.env.uriScheme}://${extensionId}/session/${encodeURIComponent(sessionId)}${query}`;
+}
+
+class DeepLinkHandler implements vscode.UriHandler {
+  constructor(private readonly db: ChatDatabase) {}
+
+  async handleUri(uri: vscode.Uri): Promise<void> {
+    const query = new URLSearchParams(uri.query);
+    // uri.path is already percent-decoded
+    if (uri.path.startsWith('/session/') && uri.path.length > '/session/'.length) {
+      const sessionId = uri.path.slice('/session/'.length);
+      const summary = await this.db.getSession(sessionId);
+      if (!summary) {
+        vscode.window.showErrorMessage(
+          `Session ${sessionId} is not in the index. It may have been deleted or recorded on another machine.`,
+        );
+        return;
+      }
+      const turn = Number(query.get('turn'));
+      const turnIndex = Number.isInteger(turn) && turn >= 1 && turn <= summary.requestCount ? turn - 1 : undefined;
+      await vscode.commands.executeCommand('sessionTrace.openSessionAtTurn', sessionId, turnIndex);
+      return;
+    }
+    if (/^\/search\/?$/.test(uri.path)) {
+      await vscode.commands.executeCommand('sessionTrace.search', query.get('q') ?? '');
+      return;
+    }
+    vscode.window.showErrorMessage(`Unknown Session Trace link: ${uri.toString(true)}`);
+  }
+}
+
+export function registerDeepLinks(context: vscode.ExtensionContext, db: ChatDatabase): void {
+  const extensionId = context.extension.id;
+  context.subscriptions.push(
+    vscode.window.registerUriHandler(new DeepLinkHandler(db)),
+
+    vscode.commands.registerCommand('sessionTrace.copyTurnLink', async (item: MessageItem) => {
+      const link = turnLink(extensionId, item.turn.sessionId, item.turn.turnIndex);
+      await vscode.env.clipboard.writeText(link);
+      vscode.window.showInformationMessage(`Copied link to turn ${item.turn.turnIndex + 1}`);
+    }),
+  );
+}
@@ -3,23 +3,25 @@ import * as path from 'path';
 import { JsonlSessionReader } from './jsonlReader';
 import { ChatDatabase } from './database';
 import { Indexer } from './indexer';
-import { SessionTreeProvider, SessionItem, SortBy, FilterType } from './sessionTreeView';
+import { SessionTreeProvider, SessionItem, MessageItem, SortBy, GroupBy, FilterType, OriginFilter, ArchiveFilter, formatOrigin } from './sessionTreeView';
+import { SessionSummary } from './types';
 import { registerSearchCommand } from './searchCommand';
-import { relativeTime, escapeHtml } from './utils';
+import { registerDoctorCommands } from './sessionDoctor';
+import { registerReplayCommands } from './sessionReplay';
+import { registerSessionViewerCommands } from './sessionViewer';
+import { registerDeepLinks } from './deepLinks';
+import { registerSessionTagCommands } from './sessionTags';
+import { STARRED_TAG } from './utils';
+import { SessionDocumentProvider, SESSION_SCHEME } from './sessionDocuments';
 import { SearchChatSessionsTool } from './searchChatSessionsTool';
+import { SessionWatcher } from './sessionWatcher';
+import { SessionSources, sourceLabel } from './sourceAdapters';
+import { ARCHIVE_SCHEME, SessionArchive } from './sessionArchive';
 
 let db: ChatDatabase;
 
-const escapeMarkdownInline = (value: string): string =>
-  escapeHtml(value).replace(/[`|*_]/g, '\\$&');
-
-const formatCodeSpan = (value: string): string => {
-  const safe = value.replace(/[\r\n]+/g, ' ');
-  const matches = safe.match(/`+/g) ?? [''];
-  const maxTicks = matches.reduce((max, current) => Math.max(max, current.length), 0);
-  const ticks = '`'.repeat(maxTicks + 1);
-  return `${ticks}${safe}${ticks}`;
-};
+/** globalState key for the Sessions view's group-by choice. */
+const GROUP_BY_KEY = 'sessionTrace.groupBy';
 
 const normalizeWorkspaceId = (uri: vscode.Uri): string => {
   if (uri.scheme !== 'file') {
@@ -48,12 +50,42 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // --- JSONL disk reader ---
   const reader = new JsonlSessionReader(context);
-  const stats = await reader.getStorageStats();
-  outputChannel.appendLine(`User dir: ${stats.userDir}`);
-  outputChannel.appendLine(`Found ${stats.totalDirs} chatSessions directories:`);
-  for (const p of stats.paths) {
-    outputChannel.appendLine(`  ${p}`);
-  }
+  const applyReaderConfig = () => {
+    const config = vscode.workspace.getConfiguration('sessionTrace');
+    reader.setMaxLineBytes(config.get<number>('maxLineSizeMB', 64) * 1024 * 1024);
+    reader.setDiscoveryOptions({
+      additionalUserDataDirs: config.get<string[]>('additionalUserDataDirs', []),
+      discoverOtherInstallations: config.get<boolean>('discoverOtherInstallations', true),
+    });
+  };
+  applyReaderConfig();
+  const logStorageStats = async () => {
+    const stats = await reader.getStorageStats();
+    outputChannel.appendLine(`User dir: ${stats.userDir}`);
+    outputChannel.appendLine(`User data roots: ${stats.roots.map(r => r.profile ? `${r.installation}/${r.profile}` : r.installation).join(', ')}`);
+    outputChannel.appendLine(`Found ${stats.totalDirs} chatSessions directories:`);
+    for (const p of stats.paths) {
+      outputChannel.appendLine(`  ${p}`);
+    }
+  };
+  await logStorageStats();
+
+  // --- Imported transcripts from other tools ---
+  const sources = new SessionSources();
+  const applySourcesConfig = () => {
+    const config = vscode.workspace.getConfiguration('sessionTrace');
+    sources.setOptions({
+      enabled: config.get<string[]>('importSources', ['claude-code', 'aider', 'openai']),
+      importPaths: config.get<string[]>('importPaths', []),
+    });
+    sources.setWorkspaceFolders((vscode.workspace.workspaceFolders ?? [])
+      .filter(f => f.uri.scheme === 'file')
+      .map(f => f.uri.fsPath));
+  };
+  applySourcesConfig();
+  const readSessionFile = (filePath: string, source: string) => source === 'vscode'
+    ? reader.readFullSession(filePath)
+    : sources.readFullSession(filePath, source);
 
   // --- SQLite database ---
   const storagePath = context.globalStorageUri.fsPath;
@@ -63,11 +95,41 @@ export async function activate(context: vscode.ExtensionContext) {
   await db.open();
   context.subscriptions.push({ dispose: () => { db.close(); } });
 
+  // --- Archive mode: keep sessions after their files are deleted ---
+  const archive = new SessionArchive(path.join(storagePath, 'archive'), db);
+  const applyArchiveConfig = () => {
+    archive.setEnabled(vscode.workspace.getConfiguration('sessionTrace.archive').get<boolean>('enabled', false));
+  };
+  applyArchiveConfig();
+  context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(ARCHIVE_SCHEME, archive));
+  const readSession = async (session: SessionSummary) => {
+    if (!session.archivedAt) { return readSessionFile(session.filePath, session.source); }
+    const entry = await db.getArchiveEntry(session.sessionId);
+    return entry ? archive.withCopy(entry, (filePath) => readSessionFile(filePath, entry.source)) : null;
+  };
+
+  // --- Rendered session documents (sessiontrace: URIs) ---
+  const sessionDocuments = new SessionDocumentProvider(db, async (summary) => {
+    const [session, rawLines] = await Promise.all([
+      readSession(summary),
+      summary.source === 'vscode' && !summary.archivedAt
+        ? reader.readRawLines(summary.filePath)
+        : Promise.resolve([]),
+    ]);
+    return session ? { session, rawLineCount: rawLines.length } : null;
+  });
+  context.subscriptions.push(
+    sessionDocuments,
+    vscode.workspace.registerTextDocumentContentProvider(SESSION_SCHEME, sessionDocuments),
+  );
+
   // --- Indexer ---
-  const indexer = new Indexer(reader, db);
+  const indexer = new Indexer(reader, db, sources, archive);
+  context.subscriptions.push(indexer);
 
   // --- Tree view ---
   const sessionTree = new SessionTreeProvider(db);
+  sessionTree.setGroupBy(context.globalState.get<GroupBy>(GROUP_BY_KEY, 'workspace'));
   const treeView = vscode.window.createTreeView('sessionTrace.jsonlSessions', {
     treeDataProvider: sessionTree,
     showCollapseAll: true,
@@ -75,13 +137,22 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(treeView);
   await vscode.commands.executeCommand('setContext', 'sessionTraceViewMode', 'sessions');
 
+  /** Refresh the tree and any open session documents after a reindex. */
+  const refreshViews = (files?: readonly string[]) => {
+    sessionTree.refresh();
+    sessionDocuments.refresh(files);
+  };
+
   // Seed and track current workspace name for filtering
   const updateWorkspace = () => {
     const { id, label } = getWorkspaceIdentity();
     sessionTree.setCurrentWorkspace(id, label);
   };
   updateWorkspace();
-  context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(updateWorkspace));
+  context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(() => {
+    updateWorkspace();
+    applySourcesConfig();
+  }));
 
   // updateViewDescription is defined later but we need to set it after indexing;
   // defer so the description reflects defaults on first paint
@@ -94,9 +165,9 @@ export async function activate(context: vscode.ExtensionContext) {
       const result = await indexer.reindex(progress);
       outputChannel.appendLine(`Indexed ${result.indexed} sessions, skipped ${result.skipped}, pruned ${result.pruned}`);
       const dbStats = await db.getStats();
-      outputChannel.appendLine(`DB stats: ${dbStats.sessions} sessions, ${dbStats.turns} turns, ${dbStats.annotations} annotations`);
+      outputChannel.appendLine(`DB stats: ${dbStats.sessions} sessions, ${dbStats.turns} turns, ${dbStats.annotations} annotations, ${dbStats.toolCalls} tool calls`);
       // Refresh views after indexing
-      sessionTree.refresh();
+      refreshViews();
     },
   );
   indexDone.then(undefined, (err) => {
@@ -104,6 +175,63 @@ export async function activate(context: vscode.ExtensionContext) {
   });
   vscode.window.withProgress({ location: { viewId: 'sessionTrace.jsonlSessions' } }, () => indexDone).then(undefined, () => {});
 
+  // --- Live file watching ---
+  let watcher: SessionWatcher | undefined;
+  const startWatcher = () => {
+    watcher?.dispose();
+    watcher = undefined;
+    const config = vscode.workspace.getConfiguration('sessionTrace.watch');
+    if (!config.get<boolean>('enabled', true)) { return; }
+    const ownStorageDir = context.storageUri
+      ? path.dirname(context.storageUri.fsPath)
+      : undefined;
+    const w = new SessionWatcher(reader, indexer, config.get<number>('debounceMs', 1000), ownStorageDir);
+    w.onDidReindex((result) => {
+      outputChannel.appendLine(`Watcher re-indexed ${result.indexed}, pruned ${result.pruned} (${result.files.length} changed files)`);
+      refreshViews(result.files);
+    });
+    watcher = w;
+    // Start after the activation reindex so the initial scan isn't duplicated
+    indexDone.then(() => w.start(), () => w.start()).then(undefined, (err) => {
+      outputChannel.appendLine(`File watcher failed to start: ${err}`);
+    });
+  };
+  startWatcher();
+  context.subscriptions.push(
+    { dispose: () => watcher?.dispose() },
+    vscode.workspace.onDidChangeConfiguration(async (e) => {
+      if (e.affectsConfiguration('sessionTrace.maxLineSizeMB')) { applyReaderConfig(); }
+      if (e.affectsConfiguration('sessionTrace.additionalUserDataDirs')
+        || e.affectsConfiguration('sessionTrace.discoverOtherInstallations')) {
+        applyReaderConfig();
+        try {
+          await reader.rediscover();
+          await logStorageStats();
+          const result = await indexer.reindex();
+          outputChannel.appendLine(`Re-indexed ${result.indexed}, skipped ${result.skipped}, pruned ${result.pruned}`);
+          refreshViews();
+        } catch (err) {
+          outputChannel.appendLine(`Reindex failed: ${err}`);
+        }
+        startWatcher();
+      } else if (e.affectsConfiguration('sessionTrace.watch')) {
+        startWatcher();
+      }
+      if (e.affectsConfiguration('sessionTrace.importSources') || e.affectsConfiguration('sessionTrace.importPaths')
+        || e.affectsConfiguration('sessionTrace.archive')) {
+        applySourcesConfig();
+        applyArchiveConfig();
+        try {
+          const result = await indexer.reindex();
+          outputChannel.appendLine(`Re-indexed ${result.indexed}, skipped ${result.skipped}, pruned ${result.pruned}`);
+          refreshViews();
+        } catch (err) {
+          outputChannel.appendLine(`Reindex failed: ${err}`);
+        }
+      }
+    }),
+  );
+
   // --- LM tool for agent search ---
   const searchTool = new SearchChatSessionsTool(db, indexer);
   context.subscriptions.push(
@@ -128,18 +256,32 @@ export async function activate(context: vscode.ExtensionContext) {
         await refreshDone;
         vscode.window.showInformationMessage('Chat sessions refreshed');
       } finally {
-        sessionTree.refresh();
+        refreshViews();
       }
     }),
 
-    vscode.commands.registerCommand('sessionTrace.openSession', async (item: SessionItem) => {
-      const filePath = item.session.filePath;
-      const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+    vscode.commands.registerCommand('sessionTrace.openSession', async (item: SessionItem | string) => {
+      const session = typeof item === 'string' ? await db.getSession(item) : item.session;
+      if (!session) {
+        vscode.window.showErrorMessage('Session is no longer indexed');
+        return;
+      }
+      let uri = vscode.Uri.file(session.filePath);
+      if (session.archivedAt) {
+        // The original is gone; open the archived copy as a read-only document
+        const entry = await db.getArchiveEntry(session.sessionId);
+        if (!entry) {
+          vscode.window.showErrorMessage('Archived copy of this session is missing');
+          return;
+        }
+        uri = archive.uri(entry);
+      }
+      const doc = await vscode.workspace.openTextDocument(uri);
       await vscode.window.showTextDocument(doc, { preview: true });
     }),
 
     vscode.commands.registerCommand('sessionTrace.copySessionJson', async (item: SessionItem) => {
-      const session = await reader.readFullSession(item.session.filePath);
+      const session = await readSession(item.session);
       if (session) {
         await vscode.env.clipboard.writeText(JSON.stringify(session, null, 2));
         vscode.window.showInformationMessage(
@@ -151,331 +293,20 @@ export async function activate(context: vscode.ExtensionContext) {
     }),
 
     vscode.commands.registerCommand('sessionTrace.openSessionMarkdown', async (item: SessionItem) => {
-      let session: Awaited<ReturnType<typeof reader.readFullSession>>;
-      let rawLines: Awaited<ReturnType<typeof reader.readRawLines>>;
-      try {
-        [session, rawLines] = await Promise.all([
-          reader.readFullSession(item.session.filePath),
-          reader.readRawLines(item.session.filePath),
-        ]);
-      } catch (err) {
-        vscode.window.showErrorMessage(`Failed to read session: ${err}`);
-        return;
-      }
-      if (!session) {
-        vscode.window.showErrorMessage('Failed to read session');
-        return;
-      }
-
-      const rawTitle = (session.customTitle || session.sessionId).replace(/[\r\n]+/g, ' ');
-      const title = escapeHtml(rawTitle);
-      const creationDate = new Date(session.creationDate);
-      const allModelsRaw = [...new Set(session.requests.map(r => r.modelId).filter(Boolean))].join(', ');
-      const allAgentsRaw = [...new Set(session.requests.map(r => r.agent?.id || r.agent?.agentId).filter(Boolean))].join(', ');
-      const allModels = allModelsRaw ? escapeHtml(allModelsRaw).replace(/\|/g, '\\|') : '—';
-      const allAgents = allAgentsRaw ? escapeHtml(allAgentsRaw).replace(/\|/g, '\\|') : '—';
-      const totalTokens = session.requests.reduce((sum, r) => sum + (r.usage?.totalTokens ?? 0), 0);
-
-      const normalizeFileEdit = (raw: string): { key: string; label: string } | null => {
-        const trimmed = raw.trim();
-        if (!trimmed) { return null; }
-        const isDrivePath = /^[A-Za-z]:/.test(trimmed);
-        const isUriLike = /^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(trimmed);
-        if (isUriLike && !isDrivePath) {
-          try {
-            const parsed = vscode.Uri.parse(trimmed);
-            const fsPath = parsed.fsPath || parsed.path || trimmed;
-            return { key: fsPath, label: path.basename(fsPath) };
-          } catch {
-            return null;
-          }
-        }
-        let decoded = trimmed;
-        try { decoded = decodeURIComponent(trimmed); } catch { /* ignore */ }
-        const cleaned = decoded.replace(/\\/g, '/');
-        return { key: cleaned, label: path.posix.basename(cleaned) || cleaned };
-      };
-
-
-      const lines: string[] = [
-        `# 💬 ${title}`,
-        '',
-        '| | |',
-        '|---|---|',
-        `| **Created** | ${creationDate.toLocaleString()} *(${relativeTime(session.creationDate)})* |`,
-        `| **Turns** | ${session.requests.length} |`,
-        `| **Models** | ${allModels} |`,
-        `| **Agents** | ${allAgents} |`,
-        ...(totalTokens > 0 ? [`| **Tokens** | ${totalTokens.toLocaleString()} |`] : []),
-        '',
-        '---',
-        '',
-      ];
-
-      const total = session.requests.length;
-      for (let i = 0; i < total; i++) {
-        const req = session.requests[i];
-        const model = req.modelId || '';
-        const agentId = req.agent?.id || req.agent?.agentId || '';
-        const turnLabel = `Turn ${i + 1} of ${total}`;
-        lines.push(`## ${turnLabel}`);
-        lines.push('');
-
-        // User prompt
-        lines.push('**👤 User**');
-        lines.push('');
-        const promptText = escapeHtml(req.message?.text || '*(empty)*');
-        // Indent each line of the prompt as a blockquote; preserve blank lines within the block
-        for (const promptLine of promptText.split('\n')) {
-          lines.push(promptLine ? `> ${promptLine}` : '>');
-        }
-        lines.push('');
-
-        // Check for context variables
-        if (req.variableData?.variables && req.variableData.variables.length > 0) {
-          const vars = req.variableData.variables.map(v => formatCodeSpan(v.name)).join(', ');
-          lines.push(`*Context: ${vars}*`);
-          lines.push('');
-        }
-
-        // Assistant response
-        const assistantLabelRaw = [model, agentId ? `@${agentId}` : ''].filter(Boolean).join(' · ');
-        const assistantLabel = escapeHtml(assistantLabelRaw).replace(/_/g, '\\_');
-        lines.push(`**🤖 Assistant**${assistantLabel ? ` *(${assistantLabel})*` : ''}`);
-        lines.push('');
-
-        // Collect parts for separate sections
-        const tools: Array<{ name: string; detail: string }> = [];
-        const thinkingBlocks: string[] = [];
-        const fileEdits: string[] = [];
-        const fileEditKeys = new Set<string>();
-        const pushFileEdit = (raw: string) => {
-          const normalized = normalizeFileEdit(raw);
-          if (!normalized || fileEditKeys.has(normalized.key)) { return; }
-          fileEditKeys.add(normalized.key);
-          fileEdits.push(escapeMarkdownInline(normalized.label));
-        };
-        const markdownChunks: string[] = [];
-
-        for (const part of req.response || []) {
-          switch (part.kind) {
-            case 'markdownContent': {
-              const content = part.content;
-              const text = typeof content === 'string'
-                ? content
-                : (content as { value?: string } | null)?.value || '';
-              if (text) { markdownChunks.push(escapeHtml(text)); }
-              break;
-            }
-            case 'toolInvocationSerialized': {
-              const rec = part as Record<string, unknown>;
-              const name = String(rec.toolId || rec.toolName || '');
-              const detail = String(rec.invocationMessage || rec.input || '');
-              if (name) { tools.push({ name, detail }); }
-              break;
-            }
-            case 'thinking': {
-              const content = part.content;
-              const text = typeof content === 'string'
-                ? content
-                : (content as { value?: string } | null)?.value || '';
-              if (text) { thinkingBlocks.push(text); }
-              break;
-            }
-            case 'textEditGroup':
-            case 'codeblockUri': {
-              const uri = part.uri;
-              let uriStr = '';
-              if (typeof uri === 'string') { uriStr = uri; }
-              else if (uri && typeof uri === 'object' && 'path' in uri) { uriStr = (uri as { path: string }).path; }
-              if (uriStr) { pushFileEdit(uriStr); }
-              break;
-            }
-          }
-        }
-        if (markdownChunks.length > 0) {
-          lines.push(markdownChunks.join('\n\n'));
-          lines.push('');
-        } else {
-          lines.push('*(no text response)*');
-          lines.push('');
-        }
-
-        if (tools.length > 0) {
-          lines.push(`<details>`);
-          lines.push(`<summary>🔧 Tools Used (${tools.length})</summary>`);
-          lines.push('');
-          for (const t of tools) {
-            const safeName = escapeMarkdownInline(t.name);
-            const safeDetail = t.detail ? escapeMarkdownInline(t.detail) : '';
-            lines.push(safeDetail ? `- **${safeName}** — ${safeDetail}` : `- **${safeName}**`);
-          }
-          lines.push('');
-          lines.push('</details>');
-          lines.push('');
-        }
-
-        if (thinkingBlocks.length > 0) {
-          lines.push('<details>');
-          lines.push('<summary>💭 Thinking</summary>');
-          lines.push('');
-          lines.push(thinkingBlocks.map(b => escapeHtml(b)).join('\n\n'));
-          lines.push('');
-          lines.push('</details>');
-          lines.push('');
-        }
-
-        if (fileEdits.length > 0) {
-          lines.push(`*📁 File edits: ${fileEdits.join(', ')}*`);
-          lines.push('');
-        }
-
-        // Per-turn stats as table
-        const hasStats = req.usage?.totalTokens || req.result?.timings?.totalElapsed;
-        if (hasStats) {
-          lines.push('| Tokens | Prompt | Completion | Duration |');
-          lines.push('|--------|--------|------------|----------|');
-          const tok = req.usage?.totalTokens?.toLocaleString() ?? '—';
-          const prompt = req.usage?.promptTokens?.toLocaleString() ?? '—';
-          const completion = req.usage?.completionTokens?.toLocaleString() ?? '—';
-          const duration = req.result?.timings?.totalElapsed
-            ? `${(req.result.timings.totalElapsed / 1000).toFixed(1)}s`
-            : '—';
-          lines.push(`| ${tok} | ${prompt} | ${completion} | ${duration} |`);
-          lines.push('');
-        }
-
-        if (req.vote) {
-          lines.push(req.vote === 1
-            ? '👍 Upvoted'
-            : `👎 Downvoted${req.voteDownReason ? ` — ${escapeHtml(req.voteDownReason)}` : ''}`);
-          lines.push('');
-        }
-
-        if (req.result?.errorDetails?.message) {
-          const errLines = req.result.errorDetails.message.split('\n');
-          for (const errLine of errLines) {
-            lines.push(errLine ? `> ⚠️ **Error**: ${escapeHtml(errLine)}` : '>');
-          }
-          lines.push('');
-        }
-
-        lines.push('---');
-        lines.push('');
-      }
-
-      lines.push('## 📦 Storage');
-      lines.push('');
-      lines.push(`- **JSONL lines**: ${rawLines.length} (1 initial + ${Math.max(0, rawLines.length - 1)} mutations)`);
-      lines.push(`- **File**: ${formatCodeSpan(item.session.filePath)}`);
-      lines.push(`- **Storage type**: ${item.session.storageType}`);
-      lines.push(`- **Session ID**: ${formatCodeSpan(session.sessionId)}`);
+      await sessionDocuments.show(item.session.sessionId);
+    }),
 
-      const doc = await vscode.workspace.openTextDocument({
-        content: lines.join('\n'),
-        language: 'markdown',
+    vscode.commands.registerCommand('sessionTrace.openSessionAtTurn', async (
+      target: MessageItem | string, turnIndex?: number, terms?: string[],
+    ) => {
+      await sessionDocuments.show(typeof target === 'string' ? target : target.turn.sessionId, {
+        turn: typeof target === 'string' ? turnIndex : target.turn.turnIndex,
+        terms,
       });
-      await vscode.window.showTextDocument(doc, { preview: true, preserveFocus: true });
-      await vscode.commands.executeCommand('markdown.showPreview', doc.uri);
     }),
 
     vscode.commands.registerCommand('sessionTrace.showSessionDetail', async (item: SessionItem) => {
-      const session = await reader.readFullSession(item.session.filePath);
-      if (!session) {
-        vscode.window.showErrorMessage('Failed to read session');
-        return;
-      }
-
-      // Show a quick summary in an untitled document
-      const sessionTitle = escapeHtml(session.customTitle || session.sessionId);
-      const lines: string[] = [
-        `# Chat Session: ${sessionTitle}`,
-        '',
-        `- **Session ID**: ${formatCodeSpan(session.sessionId)}`,
-        `- **Created**: ${new Date(session.creationDate).toLocaleString()}`,
-        `- **Turns**: ${session.requests.length}`,
-        `- **Version**: ${session.version}`,
-        '',
-        '---',
-        '',
-      ];
-
-      for (let i = 0; i < session.requests.length; i++) {
-        const req = session.requests[i];
-        lines.push(`## Turn ${i + 1}`);
-        lines.push('');
-        const userModel = req.modelId || 'unknown model';
-        lines.push(`**User** (${escapeMarkdownInline(userModel)}):`);
-        lines.push('');
-        const promptText = escapeHtml(req.message?.text || '(empty)');
-        for (const promptLine of promptText.split('\n')) {
-          lines.push(promptLine ? `> ${promptLine}` : '>');
-        }
-        lines.push('');
-
-        if (req.agent?.id || req.agent?.agentId) {
-          const agentLabel = (req.agent.id || req.agent.agentId)!;
-          lines.push(`*Agent*: ${escapeMarkdownInline(agentLabel)}`);
-        }
-
-        if (req.variableData?.variables && req.variableData.variables.length > 0) {
-          const vars = req.variableData.variables.map(v => formatCodeSpan(v.name)).join(', ');
-          lines.push(`*Context variables*: ${vars}`);
-        }
-
-        // Extract text from response parts
-        const responseParts: string[] = [];
-        for (const part of req.response || []) {
-          if (part.kind === 'markdownContent' && part.content) {
-            const content = typeof part.content === 'string'
-              ? part.content
-              : (part.content as { value?: string })?.value || '';
-            if (content) {
-              responseParts.push(escapeHtml(content.substring(0, 500)));
-            }
-          } else if (part.kind === 'toolInvocationSerialized') {
-            const toolName = String((part as Record<string, unknown>).toolName || 'unknown');
-            responseParts.push(`[Tool: ${escapeMarkdownInline(toolName)}]`);
-          } else if (part.kind === 'thinking') {
-            responseParts.push(`[Thinking...]`);
-          }
-        }
-
-        if (responseParts.length > 0) {
-          lines.push('');
-          lines.push('**Assistant**:');
-          lines.push('');
-          lines.push(responseParts.join('\n\n'));
-        }
-
-        if (req.usage) {
-          lines.push('');
-          lines.push(`*Tokens*: ${req.usage.totalTokens?.toLocaleString() || '?'} (prompt: ${req.usage.promptTokens?.toLocaleString() || '?'}, completion: ${req.usage.completionTokens?.toLocaleString() || '?'})`);
-        }
-
-        if (req.vote) {
-          const downReason = req.voteDownReason ? ` (${escapeMarkdownInline(req.voteDownReason)})` : '';
-          lines.push(`*Vote*: ${req.vote === 1 ? '👍' : '👎'}${downReason}`);
-        }
-
-        lines.push('');
-        lines.push('---');
-        lines.push('');
-      }
-
-      // Show raw JSONL line count
-      const rawLines = await reader.readRawLines(item.session.filePath);
-      lines.push(`## Storage Info`);
-      lines.push('');
-      lines.push(`- **JSONL lines**: ${rawLines.length} (1 initial + ${Math.max(0, rawLines.length - 1)} mutations)`);
-      lines.push(`- **File**: ${formatCodeSpan(item.session.filePath)}`);
-      lines.push(`- **Storage type**: ${escapeMarkdownInline(item.session.storageType)}`);
-
-      const doc = await vscode.workspace.openTextDocument({
-        content: lines.join('\n'),
-        language: 'markdown',
-      });
-      await vscode.window.showTextDocument(doc, { preview: true });
+      await sessionDocuments.show(item.session.sessionId, { view: 'detail' });
     }),
 
   );
@@ -491,17 +322,42 @@ export async function activate(context: vscode.ExtensionContext) {
     };
     const typePart = sessionTree.filterType !== 'all' ? typeLabels[sessionTree.filterType] : '';
     const daysPart = sessionTree.filterDays > 0 ? `last ${sessionTree.filterDays}d` : '';
+    const groupLabels: Record<GroupBy, string> = {
+      none: 'Flat',
+      workspace: '',
+      day: 'By day',
+      week: 'By week',
+      month: 'By month',
+      model: 'By model',
+      agent: 'By agent',
+      storage: 'By storage',
+    };
+    const groupPart = sessionTree.viewMode === 'sessions' ? groupLabels[sessionTree.groupBy] : '';
     const sortPart = sessionTree.sortBy !== 'date'
       ? (sessionTree.sortBy === 'turns' ? 'by turns' : 'by name')
       : '';
-    const desc = [typePart, daysPart, sortPart].filter(Boolean).join(' · ');
+    const origin = sessionTree.filterOrigin;
+    const originPart = origin ? formatOrigin(origin) : '';
+    const source = sessionTree.filterSource;
+    const sourcePart = source ? sourceLabel(source) : '';
+    const tag = sessionTree.filterTag;
+    const tagPart = tag ? (tag === STARRED_TAG ? 'Starred' : `#${tag}`) : '';
+    const archivePart = sessionTree.filterArchive === 'live'
+      ? 'No archived'
+      : sessionTree.filterArchive === 'archived' ? 'Archived' : '';
+    const desc = [typePart, daysPart, sourcePart, originPart, archivePart, tagPart, groupPart, sortPart].filter(Boolean).join(' · ');
     treeView.description = desc || undefined;
   };
 
   type OptionItem = vscode.QuickPickItem & (
     | { action: 'sort'; sort: SortBy }
+    | { action: 'group'; groupBy: GroupBy }
     | { action: 'filter-type'; type: FilterType }
     | { action: 'filter-days'; days: number }
+    | { action: 'filter-origin'; origin: OriginFilter | undefined }
+    | { action: 'filter-source'; source: string | undefined }
+    | { action: 'filter-archive'; archive: ArchiveFilter }
+    | { action: 'filter-tag'; tag: string | undefined }
   );
 
   context.subscriptions.push(
@@ -517,19 +373,53 @@ export async function activate(context: vscode.ExtensionContext) {
       updateViewDescription();
     }),
 
+    vscode.commands.registerCommand('sessionTrace.viewAsFiles', () => {
+      sessionTree.setViewMode('files');
+      vscode.commands.executeCommand('setContext', 'sessionTraceViewMode', 'files');
+      updateViewDescription();
+    }),
+
+    vscode.commands.registerCommand('sessionTrace.viewAsTools', () => {
+      sessionTree.setViewMode('tools');
+      vscode.commands.executeCommand('setContext', 'sessionTraceViewMode', 'tools');
+      updateViewDescription();
+    }),
+
     vscode.commands.registerCommand('sessionTrace.viewOptions', async () => {
       // Prefix label with check mark (and padding to align non-checked items)
       const check = (active: boolean) => active ? '$(check) ' : '\u00a0\u00a0\u00a0\u00a0';
       const s = sessionTree.sortBy;
+      const g = sessionTree.groupBy;
       const f = sessionTree.filterType;
       const d = sessionTree.filterDays;
+      const o = sessionTree.filterOrigin;
       const hasWorkspace = !!vscode.workspace.workspaceFolders?.length;
+      const src = sessionTree.filterSource;
+      const a = sessionTree.filterArchive;
+      const tag = sessionTree.filterTag;
+      const [origins, sessionSources, archivedCount, tags] = await Promise.all([
+        db.listOrigins(), db.listSources(), db.countArchivedSessions(), db.listTags(),
+      ]);
+      const isOrigin = (a: OriginFilter | undefined, b: OriginFilter) =>
+        !!a && a.installation === b.installation && a.profile === b.profile;
 
       const items: (OptionItem | vscode.QuickPickItem)[] = [
         { kind: vscode.QuickPickItemKind.Separator, label: 'Sort' },
         { label: `${check(s === 'date')}$(calendar) Date (newest first)`,           action: 'sort', sort: 'date' },
         { label: `${check(s === 'turns')}$(comment-discussion) Turns (most first)`, action: 'sort', sort: 'turns' },
         { label: `${check(s === 'name')}$(sort-precedence) Name (A–Z)`,             action: 'sort', sort: 'name' },
+        // Grouping applies to the Sessions view; Recent always lists sessions with their turns
+        ...(sessionTree.viewMode === 'sessions' ? [
+          { kind: vscode.QuickPickItemKind.Separator, label: 'Group by' },
+          { label: `${check(g === 'workspace')}$(folder) Workspace`,          action: 'group' as const, groupBy: 'workspace' as GroupBy },
+          { label: `${check(g === 'day')}$(calendar) Day`,                     action: 'group' as const, groupBy: 'day' as GroupBy },
+          { label: `${check(g === 'week')}$(calendar) Week`,                   action: 'group' as const, groupBy: 'week' as GroupBy },
+          { label: `${check(g === 'month')}$(calendar) Month`,                 action: 'group' as const, groupBy: 'month' as GroupBy },
+          { label: `${check(g === 'model')}$(hubot) Model`,                    action: 'group' as const, groupBy: 'model' as GroupBy },
+          { label: `${check(g === 'agent')}$(person) Agent`,                   action: 'group' as const, groupBy: 'agent' as GroupBy },
+          { label: `${check(g === 'storage')}$(database) Storage type`,        action: 'group' as const, groupBy: 'storage' as GroupBy },
+          { label: `${check(g === 'none')}$(list-flat) None`,                  action: 'group' as const, groupBy: 'none' as GroupBy },
+        ] : []),
         { kind: vscode.QuickPickItemKind.Separator, label: 'Workspace' },
         { label: `${check(f === 'all')}$(list-flat) All sessions`,                  action: 'filter-type', type: 'all' },
         ...(hasWorkspace ? [{ label: `${check(f === 'current')}$(folder-active) This workspace (${vscode.workspace.workspaceFolders![0].name})`, action: 'filter-type' as const, type: 'current' as FilterType }] : []),
@@ -541,10 +431,49 @@ export async function activate(context: vscode.ExtensionContext) {
         { label: `${check(d === 7)}$(watch) Last 7 days`,   action: 'filter-days', days: 7 },
         { label: `${check(d === 30)}$(watch) Last 30 days`, action: 'filter-days', days: 30 },
         { label: `${check(d === 90)}$(watch) Last 90 days`, action: 'filter-days', days: 90 },
+        ...(sessionSources.length > 1 || src ? [
+          { kind: vscode.QuickPickItemKind.Separator, label: 'Source' },
+          { label: `${check(!src)}$(layers) All sources`, action: 'filter-source' as const, source: undefined },
+          ...sessionSources.map(entry => ({
+            label: `${check(src === entry.source)}$(layers) ${sourceLabel(entry.source)}`,
+            description: `${entry.count}`,
+            action: 'filter-source' as const,
+            source: entry.source,
+          })),
+        ] : []),
+        // Only offer installation/profile filters once sessions come from more than one
+        ...(origins.length > 1 || o ? [
+          { kind: vscode.QuickPickItemKind.Separator, label: 'Installation' },
+          { label: `${check(!o)}$(vm) All installations`, action: 'filter-origin' as const, origin: undefined },
+          ...origins.map(origin => ({
+            label: `${check(isOrigin(o, origin))}$(vm) ${formatOrigin({ installation: origin.installation || 'Unknown', profile: origin.profile })}`,
+            description: `${origin.count}`,
+            action: 'filter-origin' as const,
+            origin: { installation: origin.installation, profile: origin.profile },
+          })),
+        ] : []),
+        ...(tags.length > 0 || tag ? [
+          { kind: vscode.QuickPickItemKind.Separator, label: 'Tags' },
+          { label: `${check(!tag)}$(tag) Any or no tag`, action: 'filter-tag' as const, tag: undefined },
+          ...tags.map(entry => ({
+            label: entry.tag === STARRED_TAG
+              ? `${check(tag === entry.tag)}$(star-full) Starred`
+              : `${check(tag === entry.tag)}$(tag) #${entry.tag}`,
+            description: `${entry.count}`,
+            action: 'filter-tag' as const,
+            tag: entry.tag,
+          })),
+        ] : []),
+        ...(archivedCount > 0 || a !== 'all' ? [
+          { kind: vscode.QuickPickItemKind.Separator, label: 'Archive' },
+          { label: `${check(a === 'all')}$(list-flat) Live and archived`, action: 'filter-archive' as const, archive: 'all' as ArchiveFilter },
+          { label: `${check(a === 'live')}$(file) Hide archived`, action: 'filter-archive' as const, archive: 'live' as ArchiveFilter },
+          { label: `${check(a === 'archived')}$(archive) Archived only`, description: `${archivedCount}`, action: 'filter-archive' as const, archive: 'archived' as ArchiveFilter },
+        ] : []),
       ];
 
       const rawPick = await vscode.window.showQuickPick(items, {
-        placeHolder: 'Sort or filter sessions…',
+        placeHolder: 'Sort, group or filter sessions…',
         matchOnDescription: false,
       });
 
@@ -554,9 +483,25 @@ export async function activate(context: vscode.ExtensionContext) {
       if (pick.action === 'sort') {
         sessionTree.setSortBy(pick.sort);
         updateViewDescription();
+      } else if (pick.action === 'group') {
+        sessionTree.setGroupBy(pick.groupBy);
+        await context.globalState.update(GROUP_BY_KEY, pick.groupBy);
+        updateViewDescription();
       } else if (pick.action === 'filter-type') {
         sessionTree.setFilter(pick.type, sessionTree.filterDays);
         updateViewDescription();
+      } else if (pick.action === 'filter-origin') {
+        sessionTree.setOriginFilter(pick.origin);
+        updateViewDescription();
+      } else if (pick.action === 'filter-source') {
+        sessionTree.setSourceFilter(pick.source);
+        updateViewDescription();
+      } else if (pick.action === 'filter-archive') {
+        sessionTree.setArchiveFilter(pick.archive);
+        updateViewDescription();
+      } else if (pick.action === 'filter-tag') {
+        sessionTree.setTagFilter(pick.tag);
+        updateViewDescription();
       } else {
         sessionTree.setFilter(sessionTree.filterType, pick.days);
         updateViewDescription();
@@ -565,7 +510,16 @@ export async function activate(context: vscode.ExtensionContext) {
   );
 
   // --- Search ---
-  registerSearchCommand(context, db);
+  registerSearchCommand(context, db, () => getWorkspaceIdentity().id);
+
+  // --- Session file doctor ---
+  registerDoctorCommands(context, reader);
+
+  // --- Mutation log replay ---
+  registerReplayCommands(context, reader);
+  registerSessionViewerCommands(context, db, readSession);
+  registerDeepLinks(context, db);
+  registerSessionTagCommands(context, db, () => sessionTree.refresh());
 
   outputChannel.appendLine('Session Trace activated');
 }
@@ -1,67 +1,240 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
+import * as path from 'path';
 import { JsonlSessionReader } from './jsonlReader';
 import { ChatDatabase } from './database';
-import { ExtractedAnnotation, SerializableChatData, SessionSummary } from './types';
+import { SessionSources } from './sourceAdapters';
+import { SessionArchive } from './sessionArchive';
+import { ExtractedAnnotation, ReplayCheckpoint, SerializableChatData, SessionSummary, StorageDirectory } from './types';
 import { extractResponseParts } from './utils';
 
+interface SessionFile {
+  filePath: string;
+  storageType: SessionSummary['storageType'];
+  /** Source adapter id; VS Code session files leave it unset. */
+  source?: string;
+}
+
+interface PendingFile extends SessionFile {
+  mtime: number;
+  fileSize: number;
+}
+
 /**
  * Bridges JsonlSessionReader → ChatDatabase.
  * Provides incremental indexing using file mtime for change detection.
  */
-export class Indexer {
+export class Indexer implements vscode.Disposable {
+  /** Files smaller than this are always replayed from the first line. */
+  private static readonly CHECKPOINT_MIN_BYTES = 256 * 1024;
+  /**
+   * A checkpoint is a second copy of the replayed session, and only files
+   * that are still being appended to benefit from one, so they are kept for
+   * the most recently modified files only, within a total size budget.
+   */
+  private static readonly CHECKPOINT_MAX_FILES = 16;
+  private static readonly CHECKPOINT_BUDGET_BYTES = 64 * 1024 * 1024;
+  /**
+   * Watcher-driven reindexes only archive new sessions; refreshing the copies
+   * of changed ones re-compresses whole files, so it waits until no session
+   * has changed for this long.
+   */
+  private static readonly ARCHIVE_IDLE_MS = 60_000;
+
   private inFlightReindex: Promise<{ indexed: number; skipped: number; pruned: number }> | null = null;
+  private indexQueue: Promise<void> = Promise.resolve();
+  private archiveTimer: ReturnType<typeof setTimeout> | undefined;
+  /** Session index version last compared, per chatSessions directory. */
+  private readonly sessionIndexVersions = new Map<string, number>();
+  /**
+   * Index title each session was last re-indexed for. A custom title in the
+   * session file wins over the index, so a mismatch is only acted on once.
+   */
+  private readonly reconciledTitles = new Map<string, string>();
 
   constructor(
     private readonly reader: JsonlSessionReader,
     private readonly db: ChatDatabase,
+    private readonly sources?: SessionSources,
+    private readonly archive?: SessionArchive,
   ) {}
 
   /**
    * Incrementally reindex: only re-parse JSONL files whose mtime has changed.
-   * Prunes sessions whose source files no longer exist.
+   * Prunes sessions whose source files no longer exist, or archives them in
+   * archive mode.
    */
   async reindex(
     progress?: vscode.Progress<{ message?: string; increment?: number }>,
   ): Promise<{ indexed: number; skipped: number; pruned: number }> {
     // Coalesce overlapping reindex calls — second caller awaits the existing run
     if (this.inFlightReindex) { return this.inFlightReindex; }
-    this.inFlightReindex = this.doReindex(progress);
+    this.inFlightReindex = this.runExclusive(() => this.doReindex(progress));
     try { return await this.inFlightReindex; } finally { this.inFlightReindex = null; }
   }
 
+  /**
+   * Reindex only the given session files (e.g. from file watcher events).
+   * Files that no longer exist are pruned; unchanged mtimes are skipped.
+   */
+  async reindexFiles(
+    files: SessionFile[],
+  ): Promise<{ indexed: number; skipped: number; pruned: number }> {
+    if (files.length === 0) { return { indexed: 0, skipped: 0, pruned: 0 }; }
+    return this.runExclusive(() => this.doReindexFiles(files));
+  }
+
+  /**
+   * Re-index sessions whose title or empty flag in VS Code's session index
+   * changed without their file changing (VS Code writes generated titles to
+   * state.vscdb after the session file).
+   */
+  async refreshSessionIndex(dirs: StorageDirectory[]): Promise<{ indexed: number; files: string[] }> {
+    return this.runExclusive(() => this.doRefreshSessionIndex(dirs));
+  }
+
+  /**
+   * Serialize all DB-writing work on the single connection so transactions
+   * from overlapping full and partial reindexes never interleave.
+   */
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.indexQueue.then(task, task);
+    this.indexQueue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
   private async doReindex(
     progress?: vscode.Progress<{ message?: string; increment?: number }>,
   ): Promise<{ indexed: number; skipped: number; pruned: number }> {
     // 1. Lightweight discovery — readdir only, no file reads or stats
     progress?.report({ message: 'Discovering sessions…' });
-    const files = await this.reader.discoverSessionFiles();
+    const files: SessionFile[] = [
+      ...await this.reader.discoverSessionFiles(),
+      ...(this.sources ? await this.sources.discoverSessionFiles() : []),
+    ];
 
     // 2. Bulk staleness check — single DB query instead of N individual queries
     const knownMtimes = await this.db.getAllSessionMtimes();
 
     // 3. Stat each file and classify as stale or up-to-date
-    const toIndex: { filePath: string; storageType: SessionSummary['storageType']; mtime: number; fileSize: number }[] = [];
+    const { toIndex, skipped } = await this.classifyFiles(files, knownMtimes);
+
+    // 4. Parse and index changed/new files in batches
+    let indexed = await this.indexFiles(toIndex, progress);
+    await this.syncArchive();
+
+    // 5. Pick up session index changes of unchanged files
+    indexed += (await this.doRefreshSessionIndex(await this.reader.getStorageDirs())).indexed;
+
+    // 6. Prune (or archive) sessions whose JSONL files no longer exist
+    progress?.report({ message: 'Pruning deleted sessions…' });
+    this.db.beginIndexing();
+    let pruned = 0;
+    try {
+      pruned = await this.pruneDeleted(files);
+    } finally {
+      this.db.endIndexing();
+    }
+
+    // 7. Bring back archived sessions dropped by a rebuild
+    await this.restoreArchived();
+
+    return { indexed, skipped, pruned };
+  }
+
+  private async doReindexFiles(
+    files: SessionFile[],
+  ): Promise<{ indexed: number; skipped: number; pruned: number }> {
+    const knownMtimes = await this.db.getAllSessionMtimes(true);
+    const { toIndex, skipped, missing } = await this.classifyFiles(files, knownMtimes);
+    const indexed = await this.indexFiles(toIndex);
+    await this.syncArchive(false);
+    if (indexed > 0) { this.scheduleArchiveSync(); }
+
+    let pruned = 0;
+    const known = missing.filter(p => knownMtimes.has(p));
+    if (known.length > 0) {
+      this.db.beginIndexing();
+      try {
+        const dbPaths = await this.db.getAllSessionPaths(true);
+        const toDelete = known.map(p => dbPaths.get(p)).filter((id): id is string => !!id);
+        await this.removeSessions(toDelete);
+        pruned = toDelete.length;
+      } finally {
+        this.db.endIndexing();
+      }
+    }
+
+    return { indexed, skipped, pruned };
+  }
+
+  private async doRefreshSessionIndex(dirs: StorageDirectory[]): Promise<{ indexed: number; files: string[] }> {
+    const byDir = new Map<string, [string, { sessionId: string; title: string; isEmpty: boolean }][]>();
+    for (const [filePath, fields] of await this.db.getSessionIndexFields()) {
+      const dir = path.dirname(filePath);
+      byDir.set(dir, [...byDir.get(dir) ?? [], [filePath, fields]]);
+    }
+
+    const toIndex: PendingFile[] = [];
+    for (const dir of dirs) {
+      const { version, entries } = await this.reader.getSessionIndex(dir.path);
+      if (this.sessionIndexVersions.get(dir.path) === version) { continue; }
+      this.sessionIndexVersions.set(dir.path, version);
+      for (const [filePath, stored] of byDir.get(dir.path) ?? []) {
+        const entry = entries.get(stored.sessionId);
+        if (!entry) { continue; }
+        const title = entry.title || '';
+        const titleChanged = !!title && title !== stored.title && this.reconciledTitles.get(stored.sessionId) !== title;
+        if (!titleChanged && (entry.isEmpty ?? false) === stored.isEmpty) { continue; }
+        this.reconciledTitles.set(stored.sessionId, title);
+        try {
+          const stat = await fs.promises.stat(filePath);
+          toIndex.push({ filePath, storageType: dir.type, mtime: stat.mtimeMs, fileSize: stat.size });
+        } catch {
+          // Deleted; the next reindex prunes it
+        }
+      }
+    }
+
+    const indexed = await this.indexFiles(toIndex);
+    return { indexed, files: toIndex.map(f => f.filePath) };
+  }
+
+  private async classifyFiles(
+    files: SessionFile[],
+    knownMtimes: Map<string, number>,
+  ): Promise<{ toIndex: PendingFile[]; skipped: number; missing: string[] }> {
+    const toIndex: PendingFile[] = [];
+    const missing: string[] = [];
     let skipped = 0;
 
-    await Promise.all(files.map(async ({ filePath, storageType }) => {
+    await Promise.all(files.map(async ({ filePath, storageType, source }) => {
       try {
         const stat = await fs.promises.stat(filePath);
         const known = knownMtimes.get(filePath);
         if (known === undefined || known !== stat.mtimeMs) {
-          toIndex.push({ filePath, storageType, mtime: stat.mtimeMs, fileSize: stat.size });
+          toIndex.push({ filePath, storageType, source, mtime: stat.mtimeMs, fileSize: stat.size });
         } else {
           skipped++;
         }
       } catch {
         // File disappeared between discovery and stat
+        missing.push(filePath);
       }
     }));
 
-    // 4. Parse and index changed/new files in batches
+    return { toIndex, skipped, missing };
+  }
+
+  private async indexFiles(
+    toIndex: PendingFile[],
+    progress?: vscode.Progress<{ message?: string; increment?: number }>,
+  ): Promise<number> {
     const BATCH_SIZE = 8;
     let indexed = 0;
 
+    // Most recent first, so a large batch doesn't store checkpoints it prunes right away
+    toIndex.sort((a, b) => b.mtime - a.mtime);
     for (let i = 0; i < toIndex.length; i += BATCH_SIZE) {
       const batch = toIndex.slice(i, i + BATCH_SIZE);
       progress?.report({
@@ -70,10 +243,19 @@ export class Indexer {
       });
 
       // Parse files in parallel (I/O-bound), then write to DB sequentially (single connection)
-      const parsed = await Promise.all(batch.map(async ({ filePath, storageType, mtime, fileSize }) => {
+      const parsed = await Promise.all(batch.map(async ({ filePath, storageType, source, mtime, fileSize }) => {
         try {
-          const result = await this.reader.parseSessionFile(filePath, storageType, { size: fileSize, mtimeMs: mtime });
-          return result ? { result, mtime, filePath } : null;
+          if (source) {
+            const result = await this.sources?.parseSessionFile(filePath, source, { size: fileSize, mtimeMs: mtime });
+            return result ? { result: { ...result, checkpoint: undefined }, mtime, filePath, fileSize } : null;
+          }
+          const checkpoint = fileSize >= Indexer.CHECKPOINT_MIN_BYTES
+            ? await this.db.getReplayCheckpoint(filePath)
+            : undefined;
+          const result = await this.reader.parseSessionFile(
+            filePath, storageType, { size: fileSize, mtimeMs: mtime }, checkpoint,
+          );
+          return result ? { result, mtime, filePath, fileSize } : null;
         } catch (e) {
           console.warn(`Failed to parse ${filePath}:`, e);
           return null;
@@ -85,26 +267,27 @@ export class Indexer {
         try {
           await this.indexSession(entry.result.summary, entry.result.data, entry.mtime);
           indexed++;
+          await this.saveCheckpoint(entry.filePath, entry.fileSize, entry.result.checkpoint);
         } catch (e) {
           console.warn(`Failed to index ${entry.filePath}:`, e);
         }
       }
+      await this.db.pruneReplayCheckpoints(Indexer.CHECKPOINT_MAX_FILES, Indexer.CHECKPOINT_BUDGET_BYTES);
 
       // Yield to keep extension responsive
       await new Promise(resolve => setTimeout(resolve, 0));
     }
 
-    // 5. Prune sessions whose JSONL files no longer exist
-    progress?.report({ message: 'Pruning deleted sessions…' });
-    this.db.beginIndexing();
-    let pruned = 0;
-    try {
-      pruned = await this.pruneDeleted(files);
-    } finally {
-      this.db.endIndexing();
-    }
+    return indexed;
+  }
 
-    return { indexed, skipped, pruned };
+  private async saveCheckpoint(filePath: string, fileSize: number, checkpoint?: ReplayCheckpoint): Promise<void> {
+    // Small files replay quickly; don't pay for storing their state twice
+    if (checkpoint && fileSize >= Indexer.CHECKPOINT_MIN_BYTES) {
+      await this.db.saveReplayCheckpoint(filePath, checkpoint);
+    } else {
+      await this.db.deleteReplayCheckpoint(filePath);
+    }
   }
 
   /**
@@ -117,12 +300,13 @@ export class Indexer {
       await this.inFlightReindex;
     }
     // Wipe all data in-place — no close/open gap that could leave the DB null
-    await this.db.wipeData();
+    await this.runExclusive(() => this.db.wipeData());
     // Reset guard so doReindex runs fresh after wipe
     this.inFlightReindex = null;
     return this.reindex(progress);
   }
 
+  /** Rows are keyed by `summary.sessionId`; `data` only supplies the turns. */
   private async indexSession(summary: SessionSummary, data: SerializableChatData, mtime: number): Promise<void> {
     if (!Array.isArray(data.requests)) { return; }
 
@@ -133,18 +317,20 @@ export class Indexer {
       txStarted = true;
 
       // Remove any stale session rows reusing the same file path
-      await this.db.deleteSessionsByFilePath(summary.filePath, data.sessionId);
+      if (!summary.archivedAt) {
+        await this.db.deleteSessionsByFilePath(summary.filePath, summary.sessionId);
+      }
 
       // Upsert session with the mtime from the initial stat (avoids TOCTOU double-stat)
       await this.db.upsertSession(summary, mtime);
 
       // Clear existing turns so removed turns/annotations don't linger
-      await this.db.deleteTurnsForSession(data.sessionId);
+      await this.db.deleteTurnsForSession(summary.sessionId);
 
     // Index each turn
       for (let i = 0; i < data.requests.length; i++) {
         const req = data.requests[i];
-        const { text: responseText, annotations } = extractResponseParts(req.response || []);
+        const { text: responseText, annotations, toolCalls, codeBlocks, parts } = extractResponseParts(req.response || []);
 
       // Extract attachment annotations from user-provided variables
       const attachmentAnnotations: ExtractedAnnotation[] = [];
@@ -172,7 +358,7 @@ export class Indexer {
               ? summary.creationDate
               : mtime;
         const turnId = await this.db.upsertTurn({
-          sessionId: data.sessionId,
+          sessionId: summary.sessionId,
           turnIndex: i,
           promptText: req.message?.text || '',
           responseText,
@@ -189,7 +375,17 @@ export class Indexer {
         if (allAnnotations.length > 0) {
           await this.db.addAnnotations(turnId, allAnnotations);
         }
+        if (toolCalls.length > 0) {
+          await this.db.addToolCalls(turnId, toolCalls);
+        }
+        if (codeBlocks.length > 0) {
+          await this.db.addCodeBlocks(turnId, codeBlocks);
+        }
+        if (parts.length > 0) {
+          await this.db.addResponseParts(turnId, parts);
+        }
       }
+      await this.db.refreshSessionSearch(summary.sessionId);
 
       await this.db.commit();
     } catch (e) {
@@ -215,10 +411,76 @@ export class Indexer {
       }
     }
 
-    if (toDelete.length > 0) {
-      await this.db.deleteSessions(toDelete);
+    await this.removeSessions(toDelete);
+    return toDelete.length;
+  }
+
+  /** Delete sessions, or in archive mode mark those with an archived copy as archived. */
+  private async removeSessions(sessionIds: string[]): Promise<void> {
+    if (sessionIds.length === 0) { return; }
+    const kept = new Set(this.archive?.isEnabled ? await this.db.archiveSessions(sessionIds, Date.now()) : []);
+    await this.db.deleteSessions(sessionIds.filter(id => !kept.has(id)));
+  }
+
+  /**
+   * In archive mode, store copies of new session files and, unless
+   * `includeChanged` is false, refresh the copies of changed ones.
+   */
+  private async syncArchive(includeChanged = true): Promise<void> {
+    if (!this.archive?.isEnabled) { return; }
+    if (includeChanged) { this.cancelArchiveSync(); }
+    for (const { summary, mtime } of await this.db.listSessionsToArchive(includeChanged)) {
+      try {
+        await this.archive.store(summary, mtime);
+      } catch (e) {
+        console.warn(`Failed to archive ${summary.filePath}:`, e);
+      }
     }
+  }
 
-    return toDelete.length;
+  private scheduleArchiveSync(): void {
+    if (!this.archive?.isEnabled) { return; }
+    this.cancelArchiveSync();
+    this.archiveTimer = setTimeout(() => {
+      this.archiveTimer = undefined;
+      this.runExclusive(() => this.syncArchive()).catch((e) => console.warn('Failed to sync archive:', e));
+    }, Indexer.ARCHIVE_IDLE_MS);
+  }
+
+  private cancelArchiveSync(): void {
+    if (this.archiveTimer) {
+      clearTimeout(this.archiveTimer);
+      this.archiveTimer = undefined;
+    }
+  }
+
+  dispose(): void {
+    this.cancelArchiveSync();
+  }
+
+  /**
+   * Re-index archived sessions that are missing from the index (the derived
+   * tables were rebuilt) from their archived copies.
+   */
+  private async restoreArchived(): Promise<void> {
+    if (!this.archive) { return; }
+    for (const entry of await this.db.listArchivedNotIndexed()) {
+      try {
+        const data = await this.archive.withCopy(entry, (filePath) => this.readSessionFile(filePath, entry.source));
+        if (data) {
+          // Adapters that derive the id from the file path see the temporary copy's path
+          data.sessionId = entry.sessionId;
+          await this.indexSession({ ...entry.summary, archivedAt: entry.archivedAt }, data, entry.fileMtime);
+        }
+      } catch (e) {
+        console.warn(`Failed to restore archived session ${entry.sessionId}:`, e);
+      }
+    }
+  }
+
+  private async readSessionFile(filePath: string, source: string): Promise<SerializableChatData | null> {
+    return source === 'vscode'
+      ? this.reader.readFullSession(filePath)
+      : (await this.sources?.readFullSession(filePath, source)) ?? null;
   }
 }
@@ -1,8 +1,37 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import { fileURLToPath } from 'url';
-import { SerializableChatData, MutationEntry, SessionSummary } from './types';
+import {
+  SerializableChatData, MutationEntry, MutationFailure, ObjectPath, SessionSummary, StorageDirectory,
+  ReplayCheckpoint, UserDataRoot, ChatSessionIndexEntry,
+} from './types';
+import { summarizeRequests } from './utils';
+import { ChatSessionIndexReader } from './sessionIndexReader';
+
+interface StreamedLine {
+  text: string;
+  /** Zero-based line number, counted from the stream's start offset. */
+  line: number;
+  end: number;
+  terminated: boolean;
+  oversized: boolean;
+  head?: Buffer;
+}
+
+/**
+ * Product folder names (siblings of the current installation's data dir)
+ * probed when discovering other installations on the same machine.
+ */
+const KNOWN_INSTALLATIONS = [
+  'Code',
+  'Code - Insiders',
+  'Code - Exploration',
+  'Code - OSS',
+  'VSCodium',
+  'VSCodium - Insiders',
+];
 
 /**
  * Discovers and reads .jsonl chat session files from VS Code's storage directories.
@@ -11,15 +40,29 @@ import { SerializableChatData, MutationEntry, SessionSummary } from './types';
  * (navigating up two levels from `.../User/globalStorage/<extensionId>`).
  * This works across all platforms and with custom `--user-data-dir` configurations.
  *
- * Probed sub-paths:
- *   User/workspaceStorage/{hash}/chatSessions/*.jsonl
- *   User/globalStorage/emptyWindowChatSessions/*.jsonl
- *   User/globalStorage/transferredChatSessions/*.jsonl
+ * Besides that primary User directory, discovery covers:
+ *   - other installations next to it (Stable, Insiders, …), when enabled
+ *   - user-configured extra user-data directories
+ *   - every profile root (User/profiles/{id}) of each of those
+ *
+ * Probed sub-paths of each root:
+ *   workspaceStorage/{hash}/chatSessions/*.jsonl
+ *   globalStorage/emptyWindowChatSessions/*.jsonl
+ *   globalStorage/transferredChatSessions/*.jsonl
  */
 export class JsonlSessionReader {
-  private storageDirs: { path: string; type: SessionSummary['storageType'] }[] = [];
+  private static readonly HEAD_HASH_BYTES = 4096;
+  private static readonly YIELD_EVERY_LINES = 200;
+  private static readonly DEFAULT_MAX_LINE_BYTES = 64 * 1024 * 1024;
+
+  private storageDirs: StorageDirectory[] = [];
+  private userRoots: UserDataRoot[] = [];
   private readonly userDir: string;
   private discoveryPromise: Promise<void> | null = null;
+  private maxLineBytes = JsonlSessionReader.DEFAULT_MAX_LINE_BYTES;
+  private additionalUserDataDirs: string[] = [];
+  private discoverOtherInstallations = true;
+  private readonly sessionIndex = new ChatSessionIndexReader();
 
   constructor(context: vscode.ExtensionContext) {
     // globalStorageUri = .../User/globalStorage/<publisher.extensionId>
@@ -27,6 +70,23 @@ export class JsonlSessionReader {
     this.userDir = vscode.Uri.joinPath(context.globalStorageUri, '..', '..').fsPath;
   }
 
+  /**
+   * Lines longer than this are skipped instead of parsed. A session whose
+   * initial snapshot exceeds the limit can't be read at all.
+   */
+  setMaxLineBytes(bytes: number): void {
+    this.maxLineBytes = bytes > 0 ? bytes : JsonlSessionReader.DEFAULT_MAX_LINE_BYTES;
+  }
+
+  /**
+   * Configure which user-data directories are discovered besides the
+   * current one. Takes effect on the next (re)discovery.
+   */
+  setDiscoveryOptions(opts: { additionalUserDataDirs: string[]; discoverOtherInstallations: boolean }): void {
+    this.additionalUserDataDirs = opts.additionalUserDataDirs.filter(d => d.trim().length > 0);
+    this.discoverOtherInstallations = opts.discoverOtherInstallations;
+  }
+
   /**
    * Ensure storage paths are discovered (lazy, async, runs once).
    */
@@ -42,22 +102,110 @@ export class JsonlSessionReader {
   }
 
   /**
-   * Find all VS Code storage directories that may contain chatSessions.
-   * Uses the User directory derived from ExtensionContext.globalStorageUri.
+   * Find all VS Code storage directories that may contain chatSessions,
+   * across every user-data root.
    */
   private async discoverStoragePaths(): Promise<void> {
-    const base = this.userDir;
-    const dirs: { path: string; type: SessionSummary['storageType'] }[] = [];
+    const roots = await this.discoverUserRoots();
+    const dirs: StorageDirectory[] = [];
+    for (const root of roots) {
+      dirs.push(...await this.probeRoot(root));
+    }
+    this.userRoots = roots;
+    this.storageDirs = dirs;
+  }
+
+  /**
+   * Resolve the User directories (and their profiles) to probe.
+   * The current installation always comes first.
+   */
+  private async discoverUserRoots(): Promise<UserDataRoot[]> {
+    const userDirs: { path: string; installation: string }[] = [
+      { path: this.userDir, installation: path.basename(path.dirname(this.userDir)) },
+    ];
+
+    if (this.discoverOtherInstallations) {
+      const appDataDir = path.dirname(path.dirname(this.userDir));
+      for (const name of KNOWN_INSTALLATIONS) {
+        userDirs.push({ path: path.join(appDataDir, name, 'User'), installation: name });
+      }
+    }
+
+    for (const dir of this.additionalUserDataDirs) {
+      // Accept either a --user-data-dir (containing User/) or a User dir itself
+      const resolved = path.resolve(dir);
+      const nested = path.join(resolved, 'User');
+      const userPath = await this.pathExists(nested) ? nested : resolved;
+      userDirs.push({ path: userPath, installation: path.basename(path.dirname(userPath)) });
+    }
+
+    const roots: UserDataRoot[] = [];
+    const seen = new Set<string>();
+    for (const dir of userDirs) {
+      const key = this.normalizeFsPath(dir.path);
+      if (seen.has(key) || !(await this.pathExists(dir.path))) {
+        continue;
+      }
+      seen.add(key);
+      roots.push({ path: dir.path, installation: dir.installation, profile: '' });
+      roots.push(...await this.discoverProfiles(dir.path, dir.installation));
+    }
+    return roots;
+  }
+
+  /**
+   * List profile roots under User/profiles, named via the
+   * `userDataProfiles` entry in User/globalStorage/storage.json.
+   */
+  private async discoverProfiles(userPath: string, installation: string): Promise<UserDataRoot[]> {
+    const profilesDir = path.join(userPath, 'profiles');
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(profilesDir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const names = new Map<string, string>();
+    try {
+      const storage = JSON.parse(
+        await fs.promises.readFile(path.join(userPath, 'globalStorage', 'storage.json'), 'utf-8'),
+      ) as { userDataProfiles?: { location?: unknown; name?: unknown }[] };
+      for (const profile of storage.userDataProfiles ?? []) {
+        if (typeof profile.location === 'string' && typeof profile.name === 'string') {
+          names.set(profile.location, profile.name);
+        }
+      }
+    } catch {
+      // No storage.json or unexpected shape — fall back to folder ids
+    }
+
+    return entries
+      .filter(e => e.isDirectory() && !e.isSymbolicLink())
+      .map(e => ({
+        path: path.join(profilesDir, e.name),
+        installation,
+        profile: names.get(e.name) ?? e.name,
+      }));
+  }
+
+  /**
+   * Probe one user-data root for chatSessions directories.
+   */
+  private async probeRoot(root: UserDataRoot): Promise<StorageDirectory[]> {
+    const base = root.path;
+    const origin = { installation: root.installation, profile: root.profile };
+    const dirs: StorageDirectory[] = [];
 
     // Global storage paths
     const emptyWindow = path.join(base, 'globalStorage', 'emptyWindowChatSessions');
     if (await this.pathExists(emptyWindow)) {
-      dirs.push({ path: emptyWindow, type: 'global' });
+      dirs.push({ path: emptyWindow, type: 'global', ...origin });
     }
 
     const transferred = path.join(base, 'globalStorage', 'transferredChatSessions');
     if (await this.pathExists(transferred)) {
-      dirs.push({ path: transferred, type: 'transferred' });
+      dirs.push({ path: transferred, type: 'transferred', ...origin });
     }
 
     // Workspace storage paths — enumerate all workspace hashes
@@ -69,7 +217,7 @@ export class JsonlSessionReader {
           if (entry.isDirectory() && !entry.isSymbolicLink()) {
             const chatDir = path.join(workspaceStorage, entry.name, 'chatSessions');
             if (await this.pathExists(chatDir)) {
-              dirs.push({ path: chatDir, type: 'workspace' });
+              dirs.push({ path: chatDir, type: 'workspace', ...origin });
             }
           }
         }
@@ -78,7 +226,51 @@ export class JsonlSessionReader {
       }
     }
 
-    this.storageDirs = dirs;
+    return dirs;
+  }
+
+  /**
+   * Re-run storage discovery, picking up chatSessions directories that were
+   * created after activation (e.g. a new workspace's first chat).
+   */
+  async rediscover(): Promise<StorageDirectory[]> {
+    if (this.discoveryPromise) {
+      await this.discoveryPromise.catch(() => undefined);
+    }
+    this.discoveryPromise = this.discoverStoragePaths();
+    await this.discoveryPromise;
+    return [...this.storageDirs];
+  }
+
+  /** VS Code's chat session index for the session files in `sessionsDir`. */
+  getSessionIndex(sessionsDir: string): Promise<{ version: number; entries: Map<string, ChatSessionIndexEntry> }> {
+    return this.sessionIndex.getIndex(sessionsDir);
+  }
+
+  /**
+   * Discovered chatSessions directories with their storage types.
+   */
+  async getStorageDirs(): Promise<StorageDirectory[]> {
+    await this.ensureDiscovered();
+    return [...this.storageDirs];
+  }
+
+  /**
+   * Discovered user-data roots (installations and profiles).
+   */
+  async getUserRoots(): Promise<UserDataRoot[]> {
+    await this.ensureDiscovered();
+    return [...this.userRoots];
+  }
+
+  /**
+   * Installation and profile a session file was discovered under.
+   */
+  private originOf(filePath: string): { installation: string; profile: string } {
+    const dir = this.storageDirs.find(d => d.path === path.dirname(filePath));
+    return dir
+      ? { installation: dir.installation, profile: dir.profile }
+      : { installation: path.basename(path.dirname(this.userDir)), profile: '' };
   }
 
   private async pathExists(p: string): Promise<boolean> {
@@ -191,62 +383,50 @@ export class JsonlSessionReader {
    * Parse a session .jsonl file, replaying mutations for accurate counts.
    * Returns both the summary and the full parsed data so callers can avoid
    * a second readFullSession call.
+   *
+   * When a checkpoint from a previous pass is given, only the lines appended
+   * since then are replayed; the returned checkpoint covers the new state.
    */
   async parseSessionFile(
     filePath: string,
     storageType: SessionSummary['storageType'],
     preStats?: { size: number; mtimeMs: number },
-  ): Promise<{ summary: SessionSummary; data: SerializableChatData } | null> {
-    const [stat, data] = await Promise.all([
+    checkpoint?: ReplayCheckpoint,
+  ): Promise<{ summary: SessionSummary; data: SerializableChatData; checkpoint?: ReplayCheckpoint } | null> {
+    const [stat, replayed] = await Promise.all([
       preStats ? Promise.resolve(preStats) : fs.promises.stat(filePath),
-      this.readFullSession(filePath),
+      this.replaySession(filePath, checkpoint),
     ]);
 
+    const data = replayed?.data;
     if (!data || !Array.isArray(data.requests)) {
       return null;
     }
 
-    const modelIds = new Set<string>();
-    const agents = new Set<string>();
-    let totalTokens = 0;
-    let hasVotes = false;
-    let lastMessage: string | undefined;
-
-    for (const req of data.requests) {
-      if (req.modelId) {
-        modelIds.add(req.modelId);
-      }
-      if (req.agent?.id || req.agent?.agentId) {
-        agents.add(req.agent.id || req.agent.agentId || '');
-      }
-      if (req.usage?.totalTokens) {
-        totalTokens += req.usage.totalTokens;
-      }
-      if (req.vote) {
-        hasVotes = true;
-      }
-      if (req.message?.text) {
-        lastMessage = req.message.text;
-      }
-    }
+    // Titles VS Code generates for untitled sessions only live in its session index
+    const indexEntry = await this.sessionIndex.getEntry(filePath, data.sessionId);
+    const requests = summarizeRequests(data.requests);
 
     const summary: SessionSummary = {
       sessionId: data.sessionId,
       filePath,
-      title: data.customTitle,
-      creationDate: data.creationDate || stat.mtimeMs,
-      requestCount: data.requests.length,
-      lastMessage: lastMessage?.substring(0, 120),
-      modelIds: [...modelIds],
-      agents: [...agents],
-      totalTokens,
-      hasVotes,
+      title: data.customTitle || indexEntry?.title || undefined,
+      creationDate: data.creationDate || indexEntry?.timing?.created || stat.mtimeMs,
+      ...requests,
+      lastMessageDate: indexEntry?.lastMessageDate || requests.lastMessageDate,
+      lastRequestStarted: indexEntry?.timing?.lastRequestStarted ?? 0,
+      lastRequestEnded: indexEntry?.timing?.lastRequestEnded ?? 0,
+      isEmpty: indexEntry?.isEmpty ?? false,
+      isExternal: indexEntry?.isExternal ?? false,
+      archivedAt: 0,
       fileSize: 'size' in stat ? stat.size : 0,
       storageType,
       workspacePath: storageType === 'workspace' ? await this.resolveWorkspacePath(filePath) : '',
+      ...this.originOf(filePath),
+      source: 'vscode',
     };
 
-    return { summary, data };
+    return { summary, data, checkpoint: replayed.checkpoint };
   }
 
   /**
@@ -254,141 +434,406 @@ export class JsonlSessionReader {
    * replaying the mutation log to reconstruct final state.
    */
   async readFullSession(filePath: string): Promise<SerializableChatData | null> {
-    let lines: string[];
+    return (await this.replaySession(filePath))?.data ?? null;
+  }
+
+  /**
+   * Replay a session's operation log, resuming from a checkpoint when possible.
+   *
+   * The checkpoint is reused only if the file has not shrunk, its leading
+   * bytes are unchanged and the byte before the stored offset is still a line
+   * break; otherwise, or when a new `kind: 0` compaction snapshot was
+   * appended, the whole file is replayed.
+   * The returned checkpoint only covers newline-terminated lines so a
+   * partially written last line is re-read next time.
+   */
+  async replaySession(
+    filePath: string,
+    checkpoint?: ReplayCheckpoint,
+  ): Promise<{ data: SerializableChatData; checkpoint?: ReplayCheckpoint } | null> {
+    if (checkpoint) {
+      try {
+        const resumed = await this.replayTail(filePath, checkpoint);
+        if (resumed) {
+          return resumed;
+        }
+      } catch {
+        // Fall through to a full replay
+      }
+    }
+    return this.replayFull(filePath);
+  }
+
+  private async replayFull(
+    filePath: string,
+  ): Promise<{ data: SerializableChatData; checkpoint?: ReplayCheckpoint } | null> {
+    let state: SerializableChatData | null = null;
+    let head: Buffer | undefined;
+    let consumed = 0;
+    let lineCount = 0;
+    let tail = '';
+
     try {
-      lines = await this.readAllNonEmptyLines(filePath);
+      for await (const line of this.streamLines(filePath, 0)) {
+        if (!state) {
+          // The first line is the initial snapshot
+          if (line.oversized) {
+            console.warn(`Session Trace: initial snapshot of ${filePath} exceeds the max line size`);
+            return null;
+          }
+          try {
+            state = this.unwrapOperationLog(JSON.parse(line.text));
+          } catch {
+            // Try legacy single-JSON format
+            return this.readLegacySession(filePath);
+          }
+          if (!state) {
+            return null;
+          }
+          head = line.head;
+        } else if (line.terminated) {
+          this.applyMutationLine(state, line);
+        } else {
+          tail = line.text;
+        }
+        if (line.terminated) {
+          consumed = line.end;
+          lineCount++;
+        }
+      }
     } catch {
       return null;
     }
 
-    if (lines.length === 0) {
+    if (!state) {
       return null;
     }
+    if (lineCount === 0 || !head) {
+      // The only line is the unterminated snapshot itself
+      return { data: state };
+    }
+    const next: ReplayCheckpoint = {
+      byteOffset: consumed,
+      lineCount,
+      headHash: this.hashHead(head.subarray(0, Math.min(consumed, JsonlSessionReader.HEAD_HASH_BYTES))),
+      state,
+    };
+    return { data: this.withTail(state, tail), checkpoint: next };
+  }
 
-    // Parse the first line as the initial snapshot
-    let state: SerializableChatData | null = null;
+  private async readLegacySession(filePath: string): Promise<{ data: SerializableChatData } | null> {
     try {
-      const first = JSON.parse(lines[0]);
-      state = this.unwrapOperationLog(first);
+      const { size } = await fs.promises.stat(filePath);
+      if (size > this.maxLineBytes) {
+        console.warn(`Session Trace: ${filePath} exceeds the max line size`);
+        return null;
+      }
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      const data = this.unwrapOperationLog(JSON.parse(content));
+      return data ? { data } : null;
     } catch {
-      // Try legacy single-JSON format
-      try {
-        const content = await fs.promises.readFile(filePath, 'utf-8');
-        return this.unwrapOperationLog(JSON.parse(content));
-      } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Apply only the lines appended after `checkpoint.byteOffset`.
+   * Returns null when the checkpoint can't be used.
+   */
+  private async replayTail(
+    filePath: string,
+    checkpoint: ReplayCheckpoint,
+  ): Promise<{ data: SerializableChatData; checkpoint: ReplayCheckpoint } | null> {
+    const offset = checkpoint.byteOffset;
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const { size } = await handle.stat();
+      if (offset <= 0 || size < offset) {
         return null;
       }
+      const head = Buffer.alloc(Math.min(offset, JsonlSessionReader.HEAD_HASH_BYTES));
+      await handle.read(head, 0, head.length, 0);
+      if (this.hashHead(head) !== checkpoint.headHash) {
+        return null;
+      }
+      // Confirm we resume at a line start
+      const prev = Buffer.alloc(1);
+      await handle.read(prev, 0, 1, offset - 1);
+      if (prev[0] !== 0x0a) {
+        return null;
+      }
+    } finally {
+      await handle.close();
     }
 
-    if (!state) {
-      return null;
+    const state = checkpoint.state;
+    let consumed = offset;
+    let lineCount = checkpoint.lineCount;
+    let tail = '';
+
+    for await (const line of this.streamLines(filePath, offset)) {
+      if (!line.terminated) {
+        tail = line.text;
+        break;
+      }
+      const entry = this.parseMutationLine(line);
+      if (entry?.kind === 0) {
+        // New compaction snapshot — the checkpointed state is obsolete
+        return null;
+      }
+      if (entry) {
+        this.applyMutationSafe(state, entry);
+      }
+      consumed = line.end;
+      lineCount++;
     }
 
-    // Apply subsequent mutation lines
-    for (let i = 1; i < lines.length; i++) {
-      try {
-        const entry = JSON.parse(lines[i]) as MutationEntry;
-        this.applyMutation(state, entry);
-      } catch {
-        // Skip malformed mutation lines
+    const next: ReplayCheckpoint = {
+      byteOffset: consumed,
+      lineCount,
+      headHash: checkpoint.headHash,
+      state,
+    };
+    return { data: this.withTail(state, tail), checkpoint: next };
+  }
+
+  private hashHead(head: Buffer): string {
+    return createHash('sha1').update(head).digest('hex');
+  }
+
+  /**
+   * Stream non-empty lines from `start` without loading the file into memory.
+   *
+   * `end` is the absolute offset just past the line break; a trailing line
+   * without a break is yielded last with `terminated: false`. Lines longer
+   * than the max line size are drained without buffering and yielded with
+   * `oversized: true` and empty text. The first line also carries up to
+   * HEAD_HASH_BYTES of raw bytes from the start of the file for checkpointing.
+   * Control returns to the event loop every YIELD_EVERY_LINES lines.
+   */
+  private async *streamLines(filePath: string, start: number): AsyncGenerator<StreamedLine> {
+    const stream = fs.createReadStream(filePath, { start, highWaterMark: 256 * 1024 });
+    let parts: Buffer[] = [];
+    let partsLength = 0;
+    let oversized = false;
+    let offset = start;
+    let head: Buffer | undefined = start === 0 ? Buffer.alloc(0) : undefined;
+    let emitted = 0;
+    let lineNumber = 0;
+
+    const takeLine = (end: number, terminated: boolean): StreamedLine | undefined => {
+      const text = oversized ? '' : Buffer.concat(parts, partsLength).toString('utf-8');
+      const line = oversized || text.trim().length > 0
+        ? { text, line: lineNumber, end, terminated, oversized, head: emitted === 0 ? head : undefined }
+        : undefined;
+      lineNumber++;
+      parts = [];
+      partsLength = 0;
+      oversized = false;
+      return line;
+    };
+
+    const addSegment = (segment: Buffer) => {
+      partsLength += segment.length;
+      if (oversized) { return; }
+      if (partsLength > this.maxLineBytes) {
+        // Stop buffering; keep counting until the line break
+        oversized = true;
+        parts = [];
+        return;
+      }
+      parts.push(segment);
+    };
+
+    try {
+      for await (const chunk of stream as AsyncIterable<Buffer>) {
+        if (head && head.length < JsonlSessionReader.HEAD_HASH_BYTES) {
+          head = Buffer.concat([head, chunk.subarray(0, JsonlSessionReader.HEAD_HASH_BYTES - head.length)]);
+        }
+        let lineStart = 0;
+        let index = chunk.indexOf(0x0a);
+        while (index !== -1) {
+          addSegment(chunk.subarray(lineStart, index));
+          const line = takeLine(offset + index + 1, true);
+          if (line) {
+            yield line;
+            if (++emitted % JsonlSessionReader.YIELD_EVERY_LINES === 0) {
+              await this.yieldToEventLoop();
+            }
+          }
+          lineStart = index + 1;
+          index = chunk.indexOf(0x0a, lineStart);
+        }
+        if (lineStart < chunk.length) {
+          addSegment(chunk.subarray(lineStart));
+        }
+        offset += chunk.length;
+      }
+      const last = takeLine(offset, false);
+      if (last) {
+        yield last;
       }
+    } finally {
+      stream.destroy();
+    }
+  }
+
+  /**
+   * Apply a trailing unterminated line to a copy of the state, leaving the
+   * checkpointed state untouched.
+   */
+  private withTail(state: SerializableChatData, tail: string): SerializableChatData {
+    if (!tail) {
+      return state;
+    }
+    const copy = structuredClone(state);
+    this.applyMutationLine(copy, { text: tail, line: 0, end: 0, terminated: false, oversized: false });
+    return copy;
+  }
+
+  private applyMutationLine(state: SerializableChatData, line: StreamedLine): void {
+    const entry = this.parseMutationLine(line);
+    if (entry) {
+      this.applyMutationSafe(state, entry);
     }
+  }
 
-    return state;
+  private parseMutationLine(line: StreamedLine): MutationEntry | undefined {
+    if (line.oversized) {
+      console.warn(`Session Trace: skipped a mutation line exceeding ${this.maxLineBytes} bytes`);
+      return undefined;
+    }
+    try {
+      return JSON.parse(line.text) as MutationEntry;
+    } catch {
+      // Skip malformed mutation lines
+      return undefined;
+    }
+  }
+
+  private applyMutationSafe(state: SerializableChatData, entry: MutationEntry): void {
+    try {
+      this.applyMutation(state, entry);
+    } catch {
+      // Skip mutations that don't apply to the current state
+    }
   }
 
   /**
    * Apply a single mutation entry to the session state object.
+   * Returns why the entry could not be applied, or undefined on success;
+   * normal replay ignores failures, the session doctor reports them.
    */
-  private applyMutation(state: unknown, entry: MutationEntry): void {
-    if (typeof state !== 'object' || state === null) { return; }
+  applyMutation(state: unknown, entry: MutationEntry): MutationFailure | undefined {
+    if (typeof state !== 'object' || state === null) {
+      return { reason: 'Session state is not an object', path: [] };
+    }
     const stateObj = state as Record<string, unknown>;
 
     if (entry.kind === 0) {
       // Another initial snapshot (compaction) — replace state contents
-      if (typeof entry.v === 'object' && entry.v !== null) {
-        const v = entry.v as Record<string, unknown>;
-        for (const key of Object.keys(stateObj)) {
-          delete stateObj[key];
-        }
-        Object.assign(stateObj, v);
+      if (typeof entry.v !== 'object' || entry.v === null) {
+        return { reason: 'Snapshot value is not an object', path: [] };
       }
-      return;
+      const v = entry.v as Record<string, unknown>;
+      for (const key of Object.keys(stateObj)) {
+        delete stateObj[key];
+      }
+      Object.assign(stateObj, v);
+      return undefined;
     }
 
     if (entry.kind === 1) {
       // Set: traverse path and set value
       const { k, v } = entry;
-      if (!k || k.length === 0) { return; }
+      if (!Array.isArray(k) || k.length === 0) { return { reason: 'Set has an empty path', path: [] }; }
       const parent = this.traversePath(state, k.slice(0, -1));
-      if (parent && typeof parent === 'object') {
-        (parent as Record<string | number, unknown>)[k[k.length - 1]] = v;
+      if (!parent.value || typeof parent.value !== 'object') {
+        return { reason: 'Set path does not resolve', path: parent.failedAt ?? k.slice(0, -1) };
       }
-      return;
+      (parent.value as Record<string | number, unknown>)[k[k.length - 1]] = v;
+      return undefined;
     }
 
     if (entry.kind === 2) {
       // Push/splice: traverse to target array
       const { k, v, i } = entry;
-      if (!k || k.length === 0) { return; }
+      if (!Array.isArray(k) || k.length === 0) { return { reason: 'Push has an empty path', path: [] }; }
       const target = this.traversePath(state, k);
-      if (!Array.isArray(target)) { return; }
+      if (target.failedAt) {
+        return { reason: 'Push path does not resolve', path: target.failedAt };
+      }
+      if (!Array.isArray(target.value)) {
+        return { reason: 'Push target is not an array', path: k };
+      }
       if (typeof i === 'number') {
-        target.splice(i);
+        target.value.splice(i);
       }
       if (v && Array.isArray(v)) {
-        target.push(...v);
+        target.value.push(...v);
       }
-      return;
+      return undefined;
     }
 
     if (entry.kind === 3) {
       // Delete: traverse path and delete property
       const { k } = entry;
-      if (!k || k.length === 0) { return; }
+      if (!Array.isArray(k) || k.length === 0) { return { reason: 'Delete has an empty path', path: [] }; }
       const parent = this.traversePath(state, k.slice(0, -1));
-      if (parent && typeof parent === 'object') {
-        const lastKey = k[k.length - 1];
-        if (Array.isArray(parent) && typeof lastKey === 'number') {
-          parent.splice(lastKey, 1);
-        } else {
-          delete (parent as Record<string | number, unknown>)[lastKey];
-        }
+      if (!parent.value || typeof parent.value !== 'object') {
+        return { reason: 'Delete path does not resolve', path: parent.failedAt ?? k.slice(0, -1) };
       }
+      const lastKey = k[k.length - 1];
+      if (Array.isArray(parent.value) && typeof lastKey === 'number') {
+        parent.value.splice(lastKey, 1);
+      } else {
+        delete (parent.value as Record<string | number, unknown>)[lastKey];
+      }
+      return undefined;
     }
+
+    return { reason: `Unknown mutation kind ${JSON.stringify((entry as { kind?: unknown }).kind)}`, path: [] };
   }
 
   /**
-   * Walk into a nested object following a path of keys.
+   * Walk into a nested object following a path of keys. `failedAt` is the
+   * prefix of the path that resolved to a missing or non-object value.
    */
-  private traversePath(obj: unknown, path: (string | number)[]): unknown {
+  private traversePath(obj: unknown, path: ObjectPath): { value: unknown; failedAt?: ObjectPath } {
     let current = obj;
-    for (const key of path) {
+    for (let i = 0; i < path.length; i++) {
       if (current == null || typeof current !== 'object') {
-        return undefined;
+        return { value: undefined, failedAt: path.slice(0, i) };
       }
-      current = (current as Record<string | number, unknown>)[key];
+      current = (current as Record<string | number, unknown>)[path[i]];
     }
-    return current;
+    return { value: current };
   }
 
   /**
-   * Read all non-empty lines from a JSONL file.
+   * Stream a session file's non-empty lines with their zero-based line
+   * numbers, without replaying them.
    */
-  private async readAllNonEmptyLines(filePath: string): Promise<string[]> {
-    const content = await fs.promises.readFile(filePath, 'utf-8');
-    return content.split('\n').filter(l => l.trim().length > 0);
+  async *readLines(
+    filePath: string,
+  ): AsyncGenerator<{ line: number; text: string; oversized: boolean; terminated: boolean }> {
+    for await (const { line, text, oversized, terminated } of this.streamLines(filePath, 0)) {
+      yield { line, text, oversized, terminated };
+    }
   }
 
   /**
    * Read raw JSONL lines for inspection.
+   * Oversized lines are returned as empty strings so line numbering holds.
    */
   async readRawLines(filePath: string): Promise<string[]> {
-    return this.readAllNonEmptyLines(filePath);
+    const lines: string[] = [];
+    for await (const line of this.streamLines(filePath, 0)) {
+      lines.push(line.text);
+    }
+    return lines;
   }
 
-
-
   /**
    * Resolve workspace folder path from workspace.json next to the chatSessions dir.
    * Returns a short folder name or storage type label.
@@ -490,12 +935,13 @@ export class JsonlSessionReader {
   /**
    * Get storage directory stats for the welcome view.
    */
-  async getStorageStats(): Promise<{ totalDirs: number; userDir: string; paths: string[] }> {
+  async getStorageStats(): Promise<{ totalDirs: number; userDir: string; paths: string[]; roots: UserDataRoot[] }> {
     await this.ensureDiscovered();
     return {
       totalDirs: this.storageDirs.length,
       userDir: this.userDir,
       paths: this.storageDirs.map(d => d.path),
+      roots: [...this.userRoots],
     };
   }
 
@@ -0,0 +1,118 @@
+/**
+ * Versioned schema migrations for the index database.
+ *
+ * The database holds two kinds of tables:
+ *   derived tables — sessions, turns, annotations, FTS and replay checkpoints.
+ *     Everything in them is extracted from session files, so their schema is
+ *     defined once in ChatDatabase and they are simply dropped and re-created
+ *     when it changes; the indexer fills them again from disk.
+ *   user tables — data the user authored in the extension. They can't be
+ *     rebuilt, so they are created and altered only by migrations below and
+ *     are never dropped.
+ *
+ * Each migration runs in its own transaction, and the version it brings the
+ * database to is recorded in the `meta` table in the same transaction.
+ */
+
+/** Database access handed to a migration step. */
+export interface MigrationContext {
+  exec(sql: string): Promise<void>;
+  run(sql: string, ...params: unknown[]): Promise<void>;
+  all<T>(sql: string, ...params: unknown[]): Promise<T[]>;
+  /** ALTER TABLE … ADD COLUMN, skipped when the column already exists. */
+  addColumn(table: string, column: string, definition: string): Promise<void>;
+}
+
+export interface Migration {
+  /** Schema version after this step; strictly increasing. */
+  version: number;
+  description: string;
+  /**
+   * The derived schema changed: drop the derived tables so they are
+   * re-created from the current definition and re-indexed from disk.
+   */
+  rebuildDerived?: boolean;
+  /**
+   * Changes to user tables. Must be idempotent — a database written by a
+   * newer build of the extension is migrated again from the baseline.
+   */
+  up?(db: MigrationContext): Promise<void>;
+}
+
+/**
+ * Oldest schema version that is migrated in place. Databases from before the
+ * migration runner (or from a newer build) only have their derived tables
+ * rebuilt and then continue from here.
+ */
+export const BASELINE_VERSION = 7;
+
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 8,
+    description: 'Archive mode: session_archive table and sessions.archived_at',
+    rebuildDerived: true,
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS session_archive (
+        session_id   TEXT PRIMARY KEY,
+        file_path    TEXT NOT NULL,
+        source       TEXT NOT NULL,
+        archive_path TEXT NOT NULL,
+        file_mtime   INTEGER NOT NULL,
+        archived_at  INTEGER DEFAULT 0,
+        summary      TEXT NOT NULL
+      );
+    `),
+  },
+  {
+    version: 9,
+    description: 'tool_calls table',
+    rebuildDerived: true,
+  },
+  {
+    version: 10,
+    description: 'response_parts table',
+    rebuildDerived: true,
+  },
+  {
+    version: 11,
+    description: 'code_blocks table with trigram FTS',
+    rebuildDerived: true,
+  },
+  {
+    version: 12,
+    description: 'sessions_fts: session titles, attachments and file paths',
+    rebuildDerived: true,
+  },
+  {
+    version: 13,
+    description: 'User tags, stars and notes: session_tags and session_notes',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS session_tags (
+        session_id TEXT NOT NULL,
+        tag        TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (session_id, tag)
+      );
+      CREATE INDEX IF NOT EXISTS idx_session_tags_tag ON session_tags(tag);
+      CREATE TABLE IF NOT EXISTS session_notes (
+        session_id TEXT PRIMARY KEY,
+        note       TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `),
+  },
+  {
+    version: 14,
+    description: 'replay_checkpoints.state_size for the checkpoint budget',
+    rebuildDerived: true,
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length > 0
+  ? MIGRATIONS[MIGRATIONS.length - 1].version
+  : BASELINE_VERSION;
+
+/** Migrations that still have to run on a database at `version`, in order. */
+export function pendingMigrations(version: number): Migration[] {
+  return MIGRATIONS.filter(m => m.version > version);
+}
@@ -4,7 +4,8 @@ import * as path from 'path';
 import { fileURLToPath } from 'url';
 import { ChatDatabase } from './database';
 import { Indexer } from './indexer';
-import { relativeTime } from './utils';
+import { formatMatch, relativeTime } from './utils';
+import { searchTerms } from './searchQuery';
 
 interface SearchToolInput {
   query?: string;
@@ -136,9 +137,9 @@ export class SearchChatSessionsTool
         const safe = this.scrubPathFromError(msg);
         let hint: string | undefined;
         if (/no such column/i.test(msg)) {
-          hint = 'Column not found. Available columns — sessions: session_id, title, creation_date, request_count, model_ids, agents, total_tokens, has_votes, storage_type, workspace_path; turns: id, session_id, turn_index, prompt_text, response_text, agent, model, timestamp, duration_ms, token_total, vote; annotations: id, turn_id, kind, name, uri, detail.';
+          hint = 'Column not found. Available columns — sessions: session_id, title, creation_date, request_count, model_ids, agents, total_tokens, has_votes, storage_type, workspace_path, installation, profile, source, last_message_date, last_request_started, last_request_ended, is_empty, is_external, archived_at; turns: id, session_id, turn_index, prompt_text, response_text, agent, model, timestamp, duration_ms, token_total, vote; annotations: id, turn_id, kind, name, uri, detail; tool_calls: id, turn_id, ordinal, tool_id, tool_call_id, invocation_message, arguments, tool_specific_data, result, status, confirmation, duration_ms; response_parts: id, turn_id, ordinal, kind, text, payload; code_blocks: id, turn_id, ordinal, language, content, uri; session_tags: session_id, tag, created_at; session_notes: session_id, note, updated_at.';
         } else if (/no such table/i.test(msg)) {
-          hint = 'Table not found. Available tables: sessions, turns, annotations, turns_fts.';
+          hint = 'Table not found. Available tables: sessions, turns, annotations, tool_calls, response_parts, code_blocks, turns_fts, sessions_fts, code_blocks_fts, session_tags, session_notes.';
         } else if (/fts5/i.test(msg) || /match/i.test(msg)) {
           hint = 'FTS5 syntax error. Use turns_fts MATCH \'term1 term2\' (implicit AND) or MATCH \'term1 OR term2\' for OR. For the query parameter, use \'term1 OR term2\' directly. For complex text searches, consider using the \'query\' parameter instead.';
         }
@@ -166,12 +167,16 @@ export class SearchChatSessionsTool
 
     try {
       const results = await this.db.search(searchQuery, {
-        scope: wsScope,
-        daysBack,
+        filters: {
+          workspaceId: wsScope,
+          after: daysBack && daysBack > 0 ? Date.now() - daysBack * 86_400_000 : undefined,
+        },
         limit: 20,
       });
 
+      const terms = searchTerms(searchQuery);
       const output = results.map((r) => ({
+        sessionId: r.sessionId,
         sessionTitle: r.sessionTitle,
         promptText: r.promptText.substring(0, 500),
         responseText: r.responseText.substring(0, 300),
@@ -181,6 +186,10 @@ export class SearchChatSessionsTool
         timeAgo: relativeTime(r.timestamp),
         workspacePath: r.workspacePath || undefined,
         turnIndex: r.turnIndex,
+        // Matched terms are wrapped in «…» so the model can see why the turn matched
+        matches: r.matches.map((m) => ({ column: m.column, snippet: formatMatch(m, '«', '»') })),
+        // Opens the rendered session at this turn with the terms highlighted
+        link: `command:sessionTrace.openSessionAtTurn?${encodeURIComponent(JSON.stringify([r.sessionId, r.turnIndex, terms]))}`,
       }));
 
       const envelope: { resultCount: number; results: typeof output; hint?: string } = { resultCount: output.length, results: output };
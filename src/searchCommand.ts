@@ -1,20 +1,62 @@
 import * as vscode from 'vscode';
 import { ChatDatabase } from './database';
-import { SearchResult } from './types';
+import { SearchQualifier, parseSearchQuery, removeQualifier, searchTerms } from './searchQuery';
+import { CodeSearchResult, SearchMatch, SearchResult } from './types';
 import { relativeTime } from './utils';
 
 interface SearchResultItem extends vscode.QuickPickItem {
   result: SearchResult;
 }
 
+interface FilterChipItem extends vscode.QuickPickItem {
+  qualifier: SearchQualifier;
+}
+
+/** Result, filter chip or separator in the Search Conversations quick pick. */
+type SearchItem = SearchResultItem | FilterChipItem | vscode.QuickPickItem;
+
+interface CodeResultItem extends vscode.QuickPickItem {
+  result: CodeSearchResult;
+}
+
+const MATCH_ICONS: Record<SearchMatch['column'], string> = {
+  prompt: '$(account)', response: '$(comment)', title: '$(tag)', attachments: '$(paperclip)', files: '$(file)',
+};
+
+const CODE_SCHEME = 'session-code';
+
+/** Fence languages whose VS Code language id differs from the fence name. */
+const FENCE_LANGUAGE_IDS: Record<string, string> = {
+  ts: 'typescript', tsx: 'typescriptreact', js: 'javascript', jsx: 'javascriptreact',
+  py: 'python', sh: 'shellscript', bash: 'shellscript', zsh: 'shellscript', shell: 'shellscript',
+  yml: 'yaml', md: 'markdown', cs: 'csharp', rb: 'ruby', rs: 'rust', kt: 'kotlin',
+};
+
+/** Serves indexed code blocks read-only: session-code:/{language}/{id} */
+class CodeBlockProvider implements vscode.TextDocumentContentProvider {
+  constructor(private readonly db: ChatDatabase) {}
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const id = Number(uri.path.split('/').pop());
+    return (await this.db.getCodeBlock(id))?.content ?? '';
+  }
+}
+
+function codeBlockUri(result: CodeSearchResult): vscode.Uri {
+  return vscode.Uri.from({ scheme: CODE_SCHEME, path: `/${result.language || 'text'}/${result.id}` });
+}
+
 export function registerSearchCommand(
   context: vscode.ExtensionContext,
   db: ChatDatabase,
+  getWorkspaceId: () => string | undefined,
 ): void {
   context.subscriptions.push(
-    vscode.commands.registerCommand('sessionTrace.search', async () => {
-      const quickPick = vscode.window.createQuickPick<SearchResultItem>();
-      quickPick.placeholder = 'Search conversations (prompts, responses, titles)…';
+    vscode.commands.registerCommand('sessionTrace.search', async (initialQuery?: unknown) => {
+      const removeButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('close'), tooltip: 'Remove Filter' };
+      const openFileButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('go-to-file'), tooltip: 'Open Session File' };
+      const quickPick = vscode.window.createQuickPick<SearchItem>();
+      quickPick.placeholder = 'Search conversations — filter with model: agent: tool: file: ws:this after: before: days: vote: has:error';
       quickPick.matchOnDescription = true;
       quickPick.matchOnDetail = true;
 
@@ -22,7 +64,7 @@ export function registerSearchCommand(
 
       let searchTimer: ReturnType<typeof setTimeout> | undefined;
 
-      quickPick.onDidChangeValue((value) => {
+      const scheduleSearch = (value: string) => {
         // Debounce to avoid hammering SQLite on every keystroke
         if (searchTimer) { clearTimeout(searchTimer); }
         if (!value.trim()) {
@@ -30,18 +72,40 @@ export function registerSearchCommand(
           return;
         }
         searchTimer = setTimeout(async () => {
+          const parsed = parseSearchQuery(value, { currentWorkspace: getWorkspaceId() });
+          // Active filters are listed first; their button (or Enter) removes them from the input
+          const chips: SearchItem[] = parsed.qualifiers.map((q): FilterChipItem => ({
+            label: `${q.error ? '$(warning)' : '$(filter)'} ${q.raw}`,
+            description: q.error ?? q.label,
+            buttons: [removeButton],
+            alwaysShow: true,
+            qualifier: q,
+          }));
+          const header: SearchItem[] = chips.length > 0
+            ? [{ label: 'Filters', kind: vscode.QuickPickItemKind.Separator }, ...chips,
+              { label: 'Results', kind: vscode.QuickPickItemKind.Separator }]
+            : [];
           quickPick.busy = true;
           try {
-            const results = await db.search(value, { limit: 30 });
-            quickPick.items = results.map((r) => {
-              const timeAgo = relativeTime(r.timestamp);
-              const label = r.promptText
-                ? r.promptText.substring(0, 100).replace(/\n/g, ' ')
-                : '(empty prompt)';
-              const description = timeAgo;
-
-              const parts: string[] = [];
-              if (r.sessionTitle) {
+            const results = await db.search(parsed.text, { filters: parsed.filters, limit: 30 });
+            const resultItems = results.map((r): SearchResultItem => {
+              const promptMatch = r.matches.find(m => m.column === 'prompt');
+              const titleMatch = r.matches.find(m => m.column === 'title');
+              // Response text first, then session-level file and attachment matches
+              const detailMatch = r.matches.find(m => m.column === 'response')
+                ?? r.matches.find(m => m.column === 'files')
+                ?? r.matches.find(m => m.column === 'attachments');
+              // Show the excerpt around the match; the quick pick highlights the typed terms in it
+              const label = promptMatch
+                ? promptMatch.snippet
+                : r.promptText
+                  ? r.promptText.substring(0, 100).replace(/\n/g, ' ')
+                  : '(empty prompt)';
+
+              const parts: string[] = [relativeTime(r.timestamp)];
+              if (titleMatch) {
+                parts.push(titleMatch.snippet);
+              } else if (r.sessionTitle) {
                 parts.push(r.sessionTitle.substring(0, 40));
               }
               if (r.workspacePath) {
@@ -55,16 +119,40 @@ export function registerSearchCommand(
               if (r.model) {
                 parts.push(r.model);
               }
-              const detail = parts.join(' · ');
+              const location = parts.join(' · ');
+              // A response or file match takes the detail line so it is visible; location moves up
+              const description = detailMatch ? location : undefined;
+              const detail = detailMatch
+                ? `${MATCH_ICONS[detailMatch.column]} ${detailMatch.snippet}`
+                : location;
 
-              return { label, description, detail, result: r };
+              // FTS already matched it (stemming, OR/NOT); don't let fuzzy filtering hide it
+              return { label, description, detail, alwaysShow: true, buttons: [openFileButton], result: r };
             });
+            quickPick.items = [...header, ...resultItems];
           } catch {
             // Gracefully handle FTS errors (e.g. bad query syntax)
+            quickPick.items = header;
           } finally {
             quickPick.busy = false;
           }
         }, 150);
+      };
+
+      const removeChip = (item: FilterChipItem) => {
+        quickPick.value = removeQualifier(quickPick.value, item.qualifier);
+        scheduleSearch(quickPick.value);
+      };
+
+      quickPick.onDidChangeValue(scheduleSearch);
+
+      quickPick.onDidTriggerItemButton(async (e) => {
+        if ('qualifier' in e.item) {
+          removeChip(e.item);
+        } else if ('result' in e.item) {
+          quickPick.dispose();
+          await vscode.commands.executeCommand('sessionTrace.openSession', e.item.result.sessionId);
+        }
       });
 
       quickPick.onDidAccept(async () => {
@@ -72,20 +160,152 @@ export function registerSearchCommand(
         if (!selected) {
           return;
         }
+        if ('qualifier' in selected) {
+          removeChip(selected);
+          return;
+        }
+        if (!('result' in selected)) {
+          return;
+        }
 
+        const terms = searchTerms(parseSearchQuery(quickPick.value).text);
         quickPick.dispose();
 
-        const doc = await vscode.workspace.openTextDocument(
-          vscode.Uri.file(selected.result.filePath)
+        await vscode.commands.executeCommand(
+          'sessionTrace.openSessionAtTurn', selected.result.sessionId, selected.result.turnIndex, terms,
         );
-        await vscode.window.showTextDocument(doc, { preview: true });
       });
 
       quickPick.onDidHide(() => {
         if (searchTimer) { clearTimeout(searchTimer); }
         quickPick.dispose();
       });
-    })
+
+      // Prefilled by search links; menus may pass other arguments
+      if (typeof initialQuery === 'string' && initialQuery) {
+        quickPick.value = initialQuery;
+        scheduleSearch(initialQuery);
+      }
+    }),
+
+    vscode.workspace.registerTextDocumentContentProvider(CODE_SCHEME, new CodeBlockProvider(db)),
+
+    vscode.commands.registerCommand('sessionTrace.searchCode', async () => {
+      // Remember where to insert before previews take over the active editor
+      const targetEditor = vscode.window.activeTextEditor;
+      const copyButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('copy'), tooltip: 'Copy to Clipboard' };
+
+      const quickPick = vscode.window.createQuickPick<CodeResultItem>();
+      quickPick.placeholder = targetEditor
+        ? 'Search code blocks in conversations (identifiers, paths, 3+ characters) — Enter inserts at the cursor'
+        : 'Search code blocks in conversations (identifiers, paths, 3+ characters) — Enter copies';
+      // Results are already filtered by SQLite; don't let the quick pick re-filter them
+      quickPick.matchOnDescription = false;
+      quickPick.matchOnDetail = false;
+      quickPick.show();
+
+      let searchTimer: ReturnType<typeof setTimeout> | undefined;
+      const previewed = new Set<string>();
+
+      const preview = async (result: CodeSearchResult) => {
+        const uri = codeBlockUri(result);
+        previewed.add(uri.toString());
+        const doc = await vscode.workspace.openTextDocument(uri);
+        const languageId = FENCE_LANGUAGE_IDS[result.language] ?? result.language;
+        if (languageId && doc.languageId !== languageId) {
+          try {
+            await vscode.languages.setTextDocumentLanguage(doc, languageId);
+          } catch {
+            // Unknown language id — keep plain text
+          }
+        }
+        await vscode.window.showTextDocument(doc, {
+          preview: true,
+          preserveFocus: true,
+          viewColumn: vscode.ViewColumn.Beside,
+        });
+      };
+
+      // Close the preview tab again, unless the user kept it open
+      const closePreviews = async () => {
+        const tabs = vscode.window.tabGroups.all.flatMap(g => g.tabs).filter(tab =>
+          tab.isPreview && tab.input instanceof vscode.TabInputText && previewed.has(tab.input.uri.toString()));
+        previewed.clear();
+        if (tabs.length > 0) { await vscode.window.tabGroups.close(tabs, true); }
+      };
+
+      quickPick.onDidChangeValue((value) => {
+        if (searchTimer) { clearTimeout(searchTimer); }
+        if (!value.trim()) {
+          quickPick.items = [];
+          return;
+        }
+        searchTimer = setTimeout(async () => {
+          quickPick.busy = true;
+          try {
+            const results = await db.searchCode(value, { limit: 30 });
+            quickPick.items = results.map((r) => {
+              const firstLine = r.content.split('\n').find(l => l.trim()) ?? '';
+              const detailParts = [
+                r.sessionTitle ? r.sessionTitle.substring(0, 40) : r.promptText.substring(0, 40).replace(/\n/g, ' '),
+                `Turn ${r.turnIndex + 1}`,
+                ...(r.uri ? [`$(file) ${r.uri}`] : []),
+              ];
+              return {
+                label: firstLine.trim().substring(0, 100),
+                description: [r.language, relativeTime(r.timestamp)].filter(Boolean).join(' · '),
+                detail: detailParts.join(' · '),
+                alwaysShow: true,
+                buttons: [copyButton],
+                result: r,
+              };
+            });
+          } catch (e) {
+            quickPick.items = [];
+            console.warn('Code search failed:', e);
+          } finally {
+            quickPick.busy = false;
+          }
+        }, 150);
+      });
+
+      quickPick.onDidChangeActive((items) => {
+        if (items[0]) { preview(items[0].result).then(undefined, () => {}); }
+      });
+
+      quickPick.onDidTriggerItemButton(async ({ item }) => {
+        await vscode.env.clipboard.writeText(item.result.content);
+        vscode.window.showInformationMessage('Code block copied to clipboard');
+      });
+
+      quickPick.onDidAccept(async () => {
+        const selected = quickPick.selectedItems[0];
+        if (!selected) {
+          return;
+        }
+        quickPick.dispose();
+        await closePreviews();
+
+        const content = selected.result.content;
+        if (!targetEditor || targetEditor.document.isClosed) {
+          await vscode.env.clipboard.writeText(content);
+          vscode.window.showInformationMessage('No editor to insert into — code block copied to clipboard');
+          return;
+        }
+        const editor = await vscode.window.showTextDocument(targetEditor.document, targetEditor.viewColumn);
+        await editor.edit((edit) => {
+          for (const selection of editor.selections) {
+            edit.replace(selection, content);
+          }
+        });
+      });
+
+      quickPick.onDidHide(() => {
+        if (searchTimer) { clearTimeout(searchTimer); }
+        quickPick.dispose();
+        closePreviews().then(undefined, () => {});
+      });
+    }),
   );
 }
 
@@ -0,0 +1,135 @@
+import { SearchFilters } from './types';
+
+/**
+ * Qualifier syntax for the Search Conversations quick pick.
+ *
+ *   model:gpt-4o agent:workspace tool:run_in_terminal file:utils.ts
+ *   workspace:my-app  ws:this  before:2026-05-01  after:2026-04-01  days:7
+ *   vote:up|down  has:error  "exact phrase"
+ *
+ * Qualifiers become SearchFilters; everything else is passed to FTS as text.
+ * Values may be quoted (`file:"my file.ts"`). Unknown keys stay in the text,
+ * so things like URLs are still searched for.
+ */
+
+export interface SearchQualifier {
+  key: string;
+  value: string;
+  /** The token as typed, so it can be removed from the input. */
+  raw: string;
+  /** Human-readable meaning, e.g. "Model contains gpt-4o". */
+  label: string;
+  /** Set when the value is invalid; the qualifier is then not applied. */
+  error?: string;
+}
+
+export interface ParsedSearchQuery {
+  /** Remaining free text, with quoted phrases kept quoted. */
+  text: string;
+  filters: SearchFilters;
+  qualifiers: SearchQualifier[];
+}
+
+export interface ParseOptions {
+  /** Workspace id `ws:this` resolves to; undefined when no workspace is open. */
+  currentWorkspace?: string;
+  now?: number;
+}
+
+const ALIASES: Record<string, string> = { ws: 'workspace' };
+
+type Apply = (filters: SearchFilters, value: string, opts: ParseOptions) => string;
+
+/** Each handler adds its value to the filters and returns the chip label, or throws if invalid. */
+const QUALIFIERS: Record<string, Apply> = {
+  model: (f, v) => { (f.models ??= []).push(v); return `Model contains ${v}`; },
+  agent: (f, v) => { (f.agents ??= []).push(v); return `Agent contains ${v}`; },
+  tool: (f, v) => { (f.tools ??= []).push(v); return `Used tool ${v}`; },
+  file: (f, v) => { (f.files ??= []).push(v); return `Touched file ${v}`; },
+  workspace: (f, v, opts) => {
+    if (v.toLowerCase() === 'this') {
+      if (!opts.currentWorkspace) { throw new Error('No workspace is open'); }
+      f.workspaceId = opts.currentWorkspace;
+      return 'This workspace';
+    }
+    (f.workspaces ??= []).push(v);
+    return `Workspace contains ${v}`;
+  },
+  after: (f, v) => {
+    f.after = Math.max(f.after ?? 0, parseDay(v));
+    return `On or after ${v}`;
+  },
+  before: (f, v) => {
+    f.before = Math.min(f.before ?? Infinity, parseDay(v));
+    return `Before ${v}`;
+  },
+  days: (f, v, opts) => {
+    const days = Number(v);
+    if (!Number.isFinite(days) || days <= 0) { throw new Error('Expected a positive number of days'); }
+    f.after = Math.max(f.after ?? 0, (opts.now ?? Date.now()) - days * 86_400_000);
+    return `Last ${days} day${days === 1 ? '' : 's'}`;
+  },
+  vote: (f, v) => {
+    const vote = v.toLowerCase();
+    if (vote !== 'up' && vote !== 'down') { throw new Error('Expected vote:up or vote:down'); }
+    f.vote = vote;
+    return vote === 'up' ? 'Upvoted' : 'Downvoted';
+  },
+  has: (f, v) => {
+    if (v.toLowerCase() !== 'error') { throw new Error('Expected has:error'); }
+    f.hasError = true;
+    return 'Has a failed tool call';
+  },
+};
+
+/** key:"quoted value" | key:value | "phrase" (closing quote optional) | word */
+const TOKEN = /([A-Za-z]+):(?:"([^"]*)"?|(\S+))|("[^"]*"?)|(\S+)/g;
+
+export function parseSearchQuery(input: string, opts: ParseOptions = {}): ParsedSearchQuery {
+  const filters: SearchFilters = {};
+  const qualifiers: SearchQualifier[] = [];
+  const text: string[] = [];
+
+  for (const m of input.matchAll(TOKEN)) {
+    const [raw, rawKey, quoted, bare, phrase] = m;
+    const key = rawKey ? ALIASES[rawKey.toLowerCase()] ?? rawKey.toLowerCase() : '';
+    const apply = QUALIFIERS[key];
+    const value = quoted ?? bare ?? '';
+    if (!apply || !value) {
+      text.push(phrase ?? raw);
+      continue;
+    }
+    try {
+      qualifiers.push({ key, value, raw, label: apply(filters, value, opts) });
+    } catch (err) {
+      qualifiers.push({ key, value, raw, label: `${key}:${value}`, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return { text: text.join(' '), filters, qualifiers };
+}
+
+/** Remove one qualifier token from the input, keeping the rest as typed. */
+export function removeQualifier(input: string, qualifier: SearchQualifier): string {
+  const index = input.indexOf(qualifier.raw);
+  if (index < 0) { return input; }
+  return (input.slice(0, index) + input.slice(index + qualifier.raw.length)).replace(/\s{2,}/g, ' ').trim();
+}
+
+/** Words and quoted phrases of the free text, without FTS operators, for highlighting. */
+export function searchTerms(text: string): string[] {
+  return (text.match(/"[^"]*"?|\S+/g) ?? [])
+    .filter(t => !/^(AND|OR|NOT)$/i.test(t))
+    .map(t => t.replace(/^"|"$/g, '').trim())
+    .filter(Boolean);
+}
+
+/** Start of a local calendar day given as YYYY-MM-DD. */
+function parseDay(value: string): number {
+  const m = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  const date = m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : undefined;
+  if (!date || isNaN(date.getTime()) || date.getMonth() !== Number(m![2]) - 1) {
+    throw new Error('Expected a date as YYYY-MM-DD');
+  }
+  return date.getTime();
+}
@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { pipeline } from 'stream/promises';
+import * as vscode from 'vscode';
+import { ChatDatabase } from './database';
+import { ArchiveEntry, SessionSummary } from './types';
+
+/**
+ * Archive mode: keeps gzipped copies of session files in extension storage
+ * so sessions survive VS Code deleting their files (e.g. when workspace
+ * storage is cleaned up).
+ *
+ * New files are copied when they are indexed. Copies of changed files are
+ * refreshed on a full reindex, or once the watched files have been idle for
+ * a while, since each refresh re-compresses the whole file. When a file
+ * disappears, its session is marked archived instead of being pruned, and
+ * reads go to the copy. The copies and the session_archive table are never
+ * dropped on rebuilds; archived sessions are re-indexed from them.
+ *
+ * Archived files open in the editor as read-only documents:
+ *
+ *   sessiontrace-archive:/<sessionId>/<original file name>
+ */
+export const ARCHIVE_SCHEME = 'sessiontrace-archive';
+
+const gunzip = promisify(zlib.gunzip);
+
+export class SessionArchive implements vscode.TextDocumentContentProvider {
+  private enabled = false;
+
+  constructor(
+    private readonly dir: string,
+    private readonly db: ChatDatabase,
+  ) {}
+
+  get isEnabled(): boolean { return this.enabled; }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  /** Store a compressed copy of the session's file, replacing an older one. */
+  async store(summary: SessionSummary, mtime: number): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const archivePath = path.join(this.dir, `${safeName(summary.sessionId)}${path.extname(summary.filePath)}.gz`);
+    // Write next to the old copy and swap, so a failed copy never loses the previous one
+    const tmpPath = `${archivePath}.tmp`;
+    try {
+      await pipeline(fs.createReadStream(summary.filePath), zlib.createGzip(), fs.createWriteStream(tmpPath));
+      await fs.promises.rename(tmpPath, archivePath);
+    } catch (err) {
+      await fs.promises.rm(tmpPath, { force: true });
+      throw err;
+    }
+    await this.db.saveArchiveEntry({
+      sessionId: summary.sessionId,
+      filePath: summary.filePath,
+      source: summary.source,
+      archivePath,
+      fileMtime: mtime,
+      archivedAt: 0,
+      summary,
+    });
+  }
+
+  /** Read-only document URI for the archived copy of a session's file. */
+  uri(entry: ArchiveEntry): vscode.Uri {
+    return vscode.Uri.from({
+      scheme: ARCHIVE_SCHEME,
+      path: `/${encodeURIComponent(entry.sessionId)}/${path.basename(entry.filePath)}`,
+    });
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const sessionId = decodeURIComponent(uri.path.split('/')[1] ?? '');
+    const entry = await this.db.getArchiveEntry(sessionId);
+    if (!entry) { throw new Error(`No archived copy of session ${sessionId}`); }
+    return (await gunzip(await fs.promises.readFile(entry.archivePath))).toString('utf8');
+  }
+
+  /**
+   * Decompress an archived session to a temporary file named like the
+   * original, so the regular readers can parse it. The caller owns the file.
+   */
+  private async extract(entry: ArchiveEntry): Promise<string> {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'session-trace-'));
+    const filePath = path.join(dir, path.basename(entry.filePath));
+    await pipeline(fs.createReadStream(entry.archivePath), zlib.createGunzip(), fs.createWriteStream(filePath));
+    return filePath;
+  }
+
+  /** Run `read` against a temporary decompressed copy of an archived session. */
+  async withCopy<T>(entry: ArchiveEntry, read: (filePath: string) => Promise<T>): Promise<T> {
+    const filePath = await this.extract(entry);
+    try {
+      return await read(filePath);
+    } finally {
+      await fs.promises.rm(path.dirname(filePath), { recursive: true, force: true });
+    }
+  }
+}
+
+function safeName(sessionId: string): string {
+  return sessionId.replace(/[^\w.-]/g, '_');
+}
@@ -0,0 +1,372 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { JsonlSessionReader } from './jsonlReader';
+import { MutationEntry, ObjectPath, SerializableChatData } from './types';
+
+/** Serialization version of the session format this extension understands. */
+const SUPPORTED_VERSION = 3;
+
+/**
+ * Response part kinds VS Code is known to serialize. Anything else is
+ * reported, since the indexer silently drops parts it doesn't recognize.
+ */
+const KNOWN_PART_KINDS = new Set([
+  'markdownContent', 'markdownVuln', 'inlineReference', 'codeblockUri', 'textEditGroup', 'notebookEditGroup',
+  'toolInvocation', 'toolInvocationSerialized', 'prepareToolInvocation', 'thinking', 'confirmation',
+  'confirmationWidget', 'warning', 'progressMessage', 'progressTask', 'progressTaskSerialized', 'command',
+  'treeData', 'undoStop', 'extensions', 'pullRequest', 'multiDiffData', 'elicitation', 'elicitationSerialized',
+  'references', 'codeCitations', 'mcpServersStarting', 'clearToPreviousToolInvocation',
+]);
+
+export type SessionIssueCode =
+  | 'invalid-json'
+  | 'oversized-line'
+  | 'missing-snapshot'
+  | 'unsupported-version'
+  | 'invalid-mutation'
+  | 'unresolved-path'
+  | 'unknown-part-kind'
+  | 'orphaned-pending-request'
+  | 'unterminated-line';
+
+export interface SessionIssue {
+  /** Zero-based line number in the session file. */
+  line: number;
+  severity: 'error' | 'warning' | 'info';
+  code: SessionIssueCode;
+  message: string;
+  /** Path of the failing mutation, when the issue comes from one. */
+  path?: ObjectPath;
+}
+
+export interface SessionReport {
+  filePath: string;
+  sessionId?: string;
+  version?: number;
+  lineCount: number;
+  mutationCount: number;
+  issues: SessionIssue[];
+}
+
+/**
+ * Replays session files in strict mode: every line that normal replay would
+ * skip or fail to apply is reported with its line number, together with
+ * format drift (unknown versions and response part kinds) and requests left
+ * in `pendingRequests` when the log ends.
+ */
+export class SessionDoctor {
+  constructor(private readonly reader: JsonlSessionReader) {}
+
+  async diagnose(filePath: string): Promise<SessionReport> {
+    const report: SessionReport = { filePath, lineCount: 0, mutationCount: 0, issues: [] };
+    let state: SerializableChatData | undefined;
+    let lastPendingLine = 0;
+
+    for await (const line of this.reader.readLines(filePath)) {
+      report.lineCount = line.line + 1;
+      if (line.oversized) {
+        report.issues.push({
+          line: line.line,
+          severity: 'error',
+          code: 'oversized-line',
+          message: 'Line exceeds the maximum line size and is skipped during replay',
+        });
+        continue;
+      }
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line.text);
+      } catch (e) {
+        if (!state && line.line === 0) {
+          // Possibly a legacy pretty-printed JSON session
+          return this.diagnoseLegacy(filePath, report);
+        }
+        report.issues.push({
+          line: line.line,
+          severity: line.terminated ? 'error' : 'info',
+          code: line.terminated ? 'invalid-json' : 'unterminated-line',
+          message: line.terminated
+            ? `Malformed JSON: ${e instanceof Error ? e.message : String(e)}`
+            : 'Last line is incomplete (the file may still be being written)',
+        });
+        continue;
+      }
+
+      if (!state) {
+        state = this.checkSnapshot(parsed, line.line, report);
+        if (!state) { return report; }
+        this.checkPartKinds(state.requests, line.line, report);
+        if (this.hasPending(state)) { lastPendingLine = line.line; }
+        continue;
+      }
+
+      const entry = parsed as MutationEntry;
+      if (!entry || typeof entry !== 'object' || !('kind' in entry)) {
+        report.issues.push({
+          line: line.line,
+          severity: 'error',
+          code: 'invalid-mutation',
+          message: 'Line is not a mutation entry (missing "kind")',
+        });
+        continue;
+      }
+      report.mutationCount++;
+      const failure = this.reader.applyMutation(state, entry);
+      if (failure) {
+        report.issues.push({
+          line: line.line,
+          severity: 'error',
+          code: [0, 1, 2, 3].includes(entry.kind) ? 'unresolved-path' : 'invalid-mutation',
+          message: 'k' in entry && Array.isArray(entry.k)
+            ? `${failure.reason}: ${JSON.stringify(entry.k)}`
+            : failure.reason,
+          path: failure.path,
+        });
+        continue;
+      }
+      if (entry.kind === 0) {
+        this.checkVersion(state, line.line, report);
+        this.checkPartKinds(state.requests, line.line, report);
+      } else {
+        this.checkPartKinds(this.mutationParts(entry), line.line, report);
+      }
+      if ('k' in entry && Array.isArray(entry.k) && entry.k[0] === 'pendingRequests') {
+        lastPendingLine = line.line;
+      }
+    }
+
+    if (!state) {
+      if (report.issues.length === 0) {
+        report.issues.push({ line: 0, severity: 'error', code: 'missing-snapshot', message: 'File has no session data' });
+      }
+      return report;
+    }
+    this.checkPending(state, lastPendingLine, report);
+    return report;
+  }
+
+  private async diagnoseLegacy(filePath: string, report: SessionReport): Promise<SessionReport> {
+    try {
+      const parsed = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+      const state = this.checkSnapshot(parsed, 0, report);
+      if (state) {
+        this.checkPartKinds(state.requests, 0, report);
+        this.checkPending(state, 0, report);
+      }
+    } catch (e) {
+      report.issues.push({
+        line: 0,
+        severity: 'error',
+        code: 'invalid-json',
+        message: `Malformed JSON: ${e instanceof Error ? e.message : String(e)}`,
+      });
+    }
+    return report;
+  }
+
+  /**
+   * Validate the initial line: a `{ kind: 0, v }` snapshot, or a legacy
+   * flat session object.
+   */
+  private checkSnapshot(parsed: unknown, line: number, report: SessionReport): SerializableChatData | undefined {
+    const obj = parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : undefined;
+    let state: SerializableChatData | undefined;
+    if (obj && 'kind' in obj) {
+      if (obj.kind === 0 && obj.v && typeof obj.v === 'object') {
+        state = obj.v as SerializableChatData;
+      }
+    } else if (obj && 'sessionId' in obj) {
+      state = obj as unknown as SerializableChatData;
+    }
+    if (!state) {
+      report.issues.push({
+        line,
+        severity: 'error',
+        code: 'missing-snapshot',
+        message: 'First line is not an initial snapshot ({"kind":0,"v":{…}})',
+      });
+      return undefined;
+    }
+    report.sessionId = state.sessionId;
+    if (!Array.isArray(state.requests)) {
+      report.issues.push({
+        line,
+        severity: 'error',
+        code: 'missing-snapshot',
+        message: 'Snapshot has no "requests" array; the session will not be indexed',
+      });
+    }
+    this.checkVersion(state, line, report);
+    return state;
+  }
+
+  private checkVersion(state: SerializableChatData, line: number, report: SessionReport): void {
+    report.version = state.version;
+    if (state.version !== SUPPORTED_VERSION) {
+      report.issues.push({
+        line,
+        severity: 'warning',
+        code: 'unsupported-version',
+        message: `Session format version ${JSON.stringify(state.version)} (expected ${SUPPORTED_VERSION})`,
+      });
+    }
+  }
+
+  /**
+   * Response parts introduced by a mutation: pushes/sets of a `response`
+   * array, of a single part, or of whole requests.
+   */
+  private mutationParts(entry: MutationEntry): unknown[] {
+    if (entry.kind !== 1 && entry.kind !== 2) { return []; }
+    const k = entry.k;
+    const last = k[k.length - 1];
+    if (last === 'response') {
+      return [{ response: entry.v }];
+    }
+    if (k.length === 2 && k[0] === 'requests' && entry.kind === 1) {
+      return [entry.v];
+    }
+    if (k.length === 1 && (k[0] === 'requests' || k[0] === 'pendingRequests')) {
+      return entry.kind === 2 ? entry.v ?? [] : Array.isArray(entry.v) ? entry.v : [];
+    }
+    return [];
+  }
+
+  private checkPartKinds(requests: unknown, line: number, report: SessionReport): void {
+    if (!Array.isArray(requests)) { return; }
+    const unknown = new Set<string>();
+    for (const req of requests) {
+      const parts = (req as { response?: unknown } | null)?.response;
+      if (!Array.isArray(parts)) { continue; }
+      for (const part of parts) {
+        const kind = (part as { kind?: unknown } | null)?.kind;
+        // Parts without a kind are plain markdown in older formats
+        if (typeof kind === 'string' && !KNOWN_PART_KINDS.has(kind)) {
+          unknown.add(kind);
+        }
+      }
+    }
+    for (const kind of unknown) {
+      report.issues.push({
+        line,
+        severity: 'warning',
+        code: 'unknown-part-kind',
+        message: `Unknown response part kind "${kind}" (not indexed)`,
+      });
+    }
+  }
+
+  private hasPending(state: SerializableChatData): boolean {
+    return Array.isArray(state.pendingRequests) && state.pendingRequests.length > 0;
+  }
+
+  /**
+   * Requests still pending when the log ends were never completed; those
+   * whose id also appears in `requests` were completed but not removed.
+   */
+  private checkPending(state: SerializableChatData, line: number, report: SessionReport): void {
+    if (!this.hasPending(state)) { return; }
+    const completed = new Set((state.requests ?? []).map(r => r?.requestId).filter(Boolean));
+    for (const pending of state.pendingRequests!) {
+      const id = pending?.requestId;
+      const prompt = pending?.message?.text?.substring(0, 60) ?? '';
+      report.issues.push({
+        line,
+        severity: 'warning',
+        code: 'orphaned-pending-request',
+        message: id && completed.has(id)
+          ? `Pending request ${id} was completed but never removed from pendingRequests`
+          : `Pending request ${id ?? '(no id)'} was never completed: "${prompt}"`,
+      });
+    }
+  }
+}
+
+const SEVERITY: Record<SessionIssue['severity'], vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  info: vscode.DiagnosticSeverity.Information,
+};
+
+function toDiagnostics(report: SessionReport): vscode.Diagnostic[] {
+  return report.issues.map(issue => {
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(issue.line, 0, issue.line, Number.MAX_SAFE_INTEGER),
+      issue.message,
+      SEVERITY[issue.severity],
+    );
+    diagnostic.source = 'Session Trace';
+    diagnostic.code = issue.code;
+    return diagnostic;
+  });
+}
+
+async function showReport(reports: SessionReport[]): Promise<void> {
+  const doc = await vscode.workspace.openTextDocument({
+    content: JSON.stringify(reports.length === 1 ? reports[0] : reports, null, 2),
+    language: 'json',
+  });
+  await vscode.window.showTextDocument(doc, { preview: true });
+}
+
+export function registerDoctorCommands(
+  context: vscode.ExtensionContext,
+  reader: JsonlSessionReader,
+): void {
+  const doctor = new SessionDoctor(reader);
+  const diagnostics = vscode.languages.createDiagnosticCollection('sessionTrace');
+  context.subscriptions.push(diagnostics);
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('sessionTrace.diagnoseSession', async (item?: { session?: { filePath: string; source?: string } }) => {
+      if (item?.session?.source && item.session.source !== 'vscode') {
+        vscode.window.showInformationMessage('Only VS Code chat session files can be diagnosed');
+        return;
+      }
+      const filePath = item?.session?.filePath ?? vscode.window.activeTextEditor?.document.uri.fsPath;
+      if (!filePath || !/\.jsonl?$/.test(filePath)) {
+        vscode.window.showErrorMessage('Select a session in the Session Trace view or open a session file to diagnose');
+        return;
+      }
+      let report: SessionReport;
+      try {
+        report = await doctor.diagnose(filePath);
+      } catch (err) {
+        vscode.window.showErrorMessage(`Failed to diagnose session: ${err}`);
+        return;
+      }
+      diagnostics.set(vscode.Uri.file(filePath), toDiagnostics(report));
+      await showReport([report]);
+    }),
+
+    vscode.commands.registerCommand('sessionTrace.diagnoseAllSessions', async () => {
+      const files = await reader.discoverSessionFiles();
+      const reports = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Diagnosing sessions', cancellable: true },
+        async (progress, token) => {
+          const results: SessionReport[] = [];
+          diagnostics.clear();
+          for (let i = 0; i < files.length && !token.isCancellationRequested; i++) {
+            progress.report({ message: `${i + 1} of ${files.length}`, increment: 100 / files.length });
+            try {
+              const report = await doctor.diagnose(files[i].filePath);
+              if (report.issues.length > 0) {
+                diagnostics.set(vscode.Uri.file(report.filePath), toDiagnostics(report));
+                results.push(report);
+              }
+            } catch (e) {
+              console.warn(`Session Trace: failed to diagnose ${files[i].filePath}:`, e);
+            }
+          }
+          return results;
+        },
+      );
+      if (reports.length === 0) {
+        vscode.window.showInformationMessage(`No problems found in ${files.length} session files`);
+        return;
+      }
+      await showReport(reports);
+    }),
+  );
+}
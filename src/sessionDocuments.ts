@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import { ChatDatabase } from './database';
+import { RenderedSession, renderSessionDetail, renderSessionMarkdown } from './sessionMarkdown';
+import { SerializableChatData, SessionSummary } from './types';
+
+/**
+ * Read-only documents for rendered sessions:
+ *
+ *   sessiontrace:/session/<id>.md?view=detail&turn=3
+ *
+ * `view` is `markdown` (default) or `detail` and `turn` is the turn to
+ * reveal, 1-based as in the UI and in deep links (the options are 0-based). The `.md` extension makes the documents Markdown, so links
+ * between them open in the preview. Open documents re-render when their
+ * session is reindexed. Search terms to highlight are kept per session by the
+ * provider rather than in the URI, so each session/view is one document.
+ */
+export const SESSION_SCHEME = 'sessiontrace';
+
+export type SessionView = 'markdown' | 'detail';
+
+export interface SessionUriOptions {
+  view?: SessionView;
+  turn?: number;
+}
+
+export interface ShowSessionOptions extends SessionUriOptions {
+  /** Search terms to highlight; replaces the session's previous terms. */
+  terms?: string[];
+}
+
+export interface LoadedSession {
+  session: SerializableChatData;
+  rawLineCount: number;
+}
+
+type LoadSession = (summary: SessionSummary) => Promise<LoadedSession | null>;
+
+export function sessionUri(sessionId: string, opts: SessionUriOptions = {}): vscode.Uri {
+  const query = new URLSearchParams();
+  if (opts.view && opts.view !== 'markdown') { query.set('view', opts.view); }
+  if (opts.turn !== undefined) { query.set('turn', String(opts.turn + 1)); }
+  return vscode.Uri.from({
+    scheme: SESSION_SCHEME,
+    path: `/session/${encodeURIComponent(sessionId)}.md`,
+    query: query.toString(),
+  });
+}
+
+export function parseSessionUri(uri: vscode.Uri): { sessionId: string } & SessionUriOptions | undefined {
+  const m = /^\/session\/([^/]+)\.md$/.exec(uri.path);
+  if (uri.scheme !== SESSION_SCHEME || !m) { return undefined; }
+  const query = new URLSearchParams(uri.query);
+  const turn = Number(query.get('turn'));
+  return {
+    sessionId: decodeURIComponent(m[1]),
+    view: query.get('view') === 'detail' ? 'detail' : 'markdown',
+    turn: query.has('turn') && Number.isInteger(turn) && turn >= 1 ? turn - 1 : undefined,
+  };
+}
+
+export class SessionDocumentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this._onDidChange.event;
+
+  /** Last render of each open document, by URI string. */
+  private readonly rendered = new Map<string, { filePath: string; turnLines: number[] }>();
+  /** Highlighted search terms, by session id; shared by both views. */
+  private readonly highlights = new Map<string, string[]>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly db: ChatDatabase,
+    private readonly load: LoadSession,
+  ) {
+    this.disposables.push(
+      this._onDidChange,
+      vscode.workspace.onDidCloseTextDocument(doc => this.rendered.delete(doc.uri.toString())),
+    );
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const parsed = parseSessionUri(uri);
+    if (!parsed) { return `# Invalid session link\n\n\`${uri.toString()}\``; }
+
+    const summary = await this.db.getSession(parsed.sessionId);
+    if (!summary) { return `# Session not found\n\nSession \`${parsed.sessionId}\` is no longer indexed.`; }
+
+    let loaded: LoadedSession | null;
+    try {
+      loaded = await this.load(summary);
+    } catch (err) {
+      return `# Failed to read session\n\n${String(err)}`;
+    }
+    if (!loaded) { return '# Failed to read session'; }
+
+    const other = parsed.view === 'detail' ? 'markdown' : 'detail';
+    const alternateView = {
+      label: other === 'detail' ? 'Show detail view' : 'Show full conversation',
+      uri: sessionUri(parsed.sessionId, { view: other }).toString(),
+    };
+    const result: RenderedSession = parsed.view === 'detail'
+      ? renderSessionDetail(loaded.session, summary, { rawLineCount: loaded.rawLineCount, alternateView })
+      : renderSessionMarkdown(loaded.session, summary, {
+        rawLineCount: loaded.rawLineCount,
+        highlightTerms: this.highlights.get(parsed.sessionId),
+        alternateView,
+      });
+    this.rendered.set(uri.toString(), { filePath: summary.filePath, turnLines: result.turnLines });
+    return result.content;
+  }
+
+  /** Re-render open documents whose session file is in `filePaths`, or all of them. */
+  refresh(filePaths?: readonly string[]): void {
+    const changed = filePaths && new Set(filePaths);
+    for (const doc of vscode.workspace.textDocuments) {
+      if (doc.uri.scheme !== SESSION_SCHEME) { continue; }
+      const entry = this.rendered.get(doc.uri.toString());
+      if (!changed || !entry || changed.has(entry.filePath)) {
+        this._onDidChange.fire(doc.uri);
+      }
+    }
+  }
+
+  /**
+   * Open a session document. The Markdown view opens in the preview; the
+   * detail view opens as text. Either is scrolled to `turn` if given.
+   */
+  async show(sessionId: string, opts: ShowSessionOptions = {}): Promise<void> {
+    // Neither the turn nor the terms are part of the document identity, so each session/view opens once
+    const uri = sessionUri(sessionId, { view: opts.view });
+    const terms = opts.terms ?? [];
+    const previous = this.highlights.get(sessionId) ?? [];
+    if (terms.length > 0) { this.highlights.set(sessionId, terms); } else { this.highlights.delete(sessionId); }
+    const termsChanged = terms.join('\0') !== previous.join('\0');
+    const doc = await vscode.workspace.openTextDocument(uri);
+    if (termsChanged && this.rendered.has(uri.toString())) {
+      // Already open with other highlights; re-render before revealing
+      this._onDidChange.fire(uri);
+    }
+    const line = opts.turn !== undefined ? this.rendered.get(uri.toString())?.turnLines[opts.turn] : undefined;
+    const isPreview = opts.view !== 'detail';
+    // The preview opens at the source editor's visible line, so put the turn heading at the top first
+    const editor = await vscode.window.showTextDocument(doc, { preview: true, preserveFocus: isPreview });
+    if (line !== undefined) {
+      const range = new vscode.Range(line, 0, line, 0);
+      editor.selection = new vscode.Selection(range.start, range.start);
+      editor.revealRange(range, vscode.TextEditorRevealType.AtTop);
+    }
+    if (isPreview) {
+      await vscode.commands.executeCommand('markdown.showPreview', doc.uri);
+    }
+  }
+
+  dispose(): void {
+    for (const d of this.disposables) { d.dispose(); }
+    this.rendered.clear();
+    this.highlights.clear();
+  }
+}
@@ -0,0 +1,85 @@
+import * as sqlite3 from '@vscode/sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChatSessionIndex, ChatSessionIndexEntry } from './types';
+
+/** ItemTable key under which VS Code stores the chat session index. */
+const INDEX_KEY = 'chat.ChatSessionStore.index';
+
+/**
+ * Reads VS Code's chat session index from state.vscdb.
+ *
+ * VS Code keeps titles (including generated ones), last-message dates and
+ * request timing for each session in the storage database next to the
+ * session files:
+ *   workspaceStorage/{hash}/state.vscdb      for {hash}/chatSessions/*.jsonl
+ *   globalStorage/state.vscdb                for globalStorage/*ChatSessions/*.jsonl
+ *
+ * Databases are opened read-only and their index is cached until the
+ * database (or its WAL) changes.
+ */
+export class ChatSessionIndexReader {
+  private readonly cache = new Map<string, { version: number; entries: Promise<Map<string, ChatSessionIndexEntry>> }>();
+
+  async getEntry(sessionFilePath: string, sessionId: string): Promise<ChatSessionIndexEntry | undefined> {
+    return (await this.getIndex(path.dirname(sessionFilePath))).entries.get(sessionId);
+  }
+
+  /**
+   * The index covering the session files in `sessionsDir`. `version` changes
+   * whenever the database is written, and is 0 when there is no database.
+   */
+  async getIndex(sessionsDir: string): Promise<{ version: number; entries: Map<string, ChatSessionIndexEntry> }> {
+    const dbPath = ChatSessionIndexReader.databasePath(sessionsDir);
+    // Writes land in the WAL first, so its mtime is the better change signal
+    const [db, wal] = await Promise.all([
+      fs.promises.stat(dbPath).catch(() => undefined),
+      fs.promises.stat(`${dbPath}-wal`).catch(() => undefined),
+    ]);
+    if (!db) { return { version: 0, entries: new Map() }; }
+    const version = Math.max(db.mtimeMs, wal?.mtimeMs ?? 0);
+
+    let cached = this.cache.get(dbPath);
+    if (!cached || cached.version !== version) {
+      cached = { version, entries: this.queryIndex(dbPath) };
+      this.cache.set(dbPath, cached);
+    }
+    return { version, entries: await cached.entries };
+  }
+
+  /** The state.vscdb holding the index for the session files in `sessionsDir`. */
+  static databasePath(sessionsDir: string): string {
+    return path.join(path.dirname(sessionsDir), 'state.vscdb');
+  }
+
+  private queryIndex(dbPath: string): Promise<Map<string, ChatSessionIndexEntry>> {
+    return new Promise((resolve) => {
+      const db = new sqlite3.Database(dbPath, sqlite3.OPEN_READONLY, (err) => {
+        if (err) {
+          console.warn(`Session Trace: failed to open ${dbPath}:`, err);
+          return resolve(new Map());
+        }
+        db.get('SELECT value FROM ItemTable WHERE key = ?', [INDEX_KEY], (err2, row) => {
+          db.close(() => {/* best-effort close */});
+          if (err2 || !row) { return resolve(new Map()); }
+          resolve(parseIndex((row as { value: unknown }).value));
+        });
+      });
+    });
+  }
+}
+
+function parseIndex(value: unknown): Map<string, ChatSessionIndexEntry> {
+  const entries = new Map<string, ChatSessionIndexEntry>();
+  try {
+    const index = JSON.parse(Buffer.isBuffer(value) ? value.toString('utf-8') : String(value)) as ChatSessionIndex;
+    for (const [sessionId, entry] of Object.entries(index?.entries ?? {})) {
+      if (entry && typeof entry === 'object') {
+        entries.set(sessionId, entry);
+      }
+    }
+  } catch {
+    // Unexpected index format — treat as missing
+  }
+  return entries;
+}
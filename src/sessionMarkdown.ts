@@ -0,0 +1,413 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SerializableChatData, SessionSummary } from './types';
+import { escapeHtml, relativeTime } from './utils';
+import { sourceLabel } from './sourceAdapters';
+
+export const escapeMarkdownInline = (value: string): string =>
+  escapeHtml(value).replace(/[`|*_]/g, '\\$&');
+
+export const formatCodeSpan = (value: string): string => {
+  const safe = value.replace(/[\r\n]+/g, ' ');
+  const matches = safe.match(/`+/g) ?? [''];
+  const maxTicks = matches.reduce((max, current) => Math.max(max, current.length), 0);
+  const ticks = '`'.repeat(maxTicks + 1);
+  return `${ticks}${safe}${ticks}`;
+};
+
+/** Link to the same session in another rendering, shown under the title. */
+export interface ViewLink {
+  label: string;
+  uri: string;
+}
+
+export interface RenderedSession {
+  content: string;
+  /** Zero-based line of each turn's heading in `content`, by turn index. */
+  turnLines: number[];
+}
+
+/**
+ * Render a session as Markdown for the built-in preview. `highlightTerms`
+ * (e.g. from a search) are wrapped in <mark> in prompts and responses.
+ */
+export function renderSessionMarkdown(
+  session: SerializableChatData,
+  summary: SessionSummary,
+  opts: { rawLineCount: number; highlightTerms?: string[]; alternateView?: ViewLink },
+): RenderedSession {
+  const { rawLineCount } = opts;
+  const highlight = (markdown: string) => highlightTerms(markdown, opts.highlightTerms ?? []);
+  const rawTitle = (session.customTitle || session.sessionId).replace(/[\r\n]+/g, ' ');
+  const title = escapeHtml(rawTitle);
+  const creationDate = new Date(session.creationDate);
+  const allModelsRaw = [...new Set(session.requests.map(r => r.modelId).filter(Boolean))].join(', ');
+  const allAgentsRaw = [...new Set(session.requests.map(r => r.agent?.id || r.agent?.agentId).filter(Boolean))].join(', ');
+  const allModels = allModelsRaw ? escapeHtml(allModelsRaw).replace(/\|/g, '\\|') : '—';
+  const allAgents = allAgentsRaw ? escapeHtml(allAgentsRaw).replace(/\|/g, '\\|') : '—';
+  const totalTokens = session.requests.reduce((sum, r) => sum + (r.usage?.totalTokens ?? 0), 0);
+
+  const normalizeFileEdit = (raw: string): { key: string; label: string } | null => {
+    const trimmed = raw.trim();
+    if (!trimmed) { return null; }
+    const isDrivePath = /^[A-Za-z]:/.test(trimmed);
+    const isUriLike = /^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(trimmed);
+    if (isUriLike && !isDrivePath) {
+      try {
+        const parsed = vscode.Uri.parse(trimmed);
+        const fsPath = parsed.fsPath || parsed.path || trimmed;
+        return { key: fsPath, label: path.basename(fsPath) };
+      } catch {
+        return null;
+      }
+    }
+    let decoded = trimmed;
+    try { decoded = decodeURIComponent(trimmed); } catch { /* ignore */ }
+    const cleaned = decoded.replace(/\\/g, '/');
+    return { key: cleaned, label: path.posix.basename(cleaned) || cleaned };
+  };
+
+
+  const turnHeadings: number[] = [];
+  const lines: string[] = [
+    `# 💬 ${title}`,
+    '',
+    '| | |',
+    '|---|---|',
+    `| **Created** | ${creationDate.toLocaleString()} *(${relativeTime(session.creationDate)})* |`,
+    `| **Turns** | ${session.requests.length} |`,
+    `| **Models** | ${allModels} |`,
+    `| **Agents** | ${allAgents} |`,
+    ...(totalTokens > 0 ? [`| **Tokens** | ${totalTokens.toLocaleString()} |`] : []),
+    '',
+    ...alternateViewLink(opts.alternateView),
+    '---',
+    '',
+  ];
+
+  const total = session.requests.length;
+  for (let i = 0; i < total; i++) {
+    const req = session.requests[i];
+    const model = req.modelId || '';
+    const agentId = req.agent?.id || req.agent?.agentId || '';
+    const turnLabel = `Turn ${i + 1} of ${total}`;
+    turnHeadings.push(lines.length);
+    lines.push(`## ${turnLabel}`);
+    lines.push('');
+
+    // User prompt
+    lines.push('**👤 User**');
+    lines.push('');
+    const promptText = highlight(escapeHtml(req.message?.text || '*(empty)*'));
+    // Indent each line of the prompt as a blockquote; preserve blank lines within the block
+    for (const promptLine of promptText.split('\n')) {
+      lines.push(promptLine ? `> ${promptLine}` : '>');
+    }
+    lines.push('');
+
+    // Check for context variables
+    if (req.variableData?.variables && req.variableData.variables.length > 0) {
+      const vars = req.variableData.variables.map(v => formatCodeSpan(v.name)).join(', ');
+      lines.push(`*Context: ${vars}*`);
+      lines.push('');
+    }
+
+    // Assistant response
+    const assistantLabelRaw = [model, agentId ? `@${agentId}` : ''].filter(Boolean).join(' · ');
+    const assistantLabel = escapeHtml(assistantLabelRaw).replace(/_/g, '\\_');
+    lines.push(`**🤖 Assistant**${assistantLabel ? ` *(${assistantLabel})*` : ''}`);
+    lines.push('');
+
+    // Collect parts for separate sections
+    const tools: Array<{ name: string; detail: string }> = [];
+    const thinkingBlocks: string[] = [];
+    const fileEdits: string[] = [];
+    const fileEditKeys = new Set<string>();
+    const pushFileEdit = (raw: string) => {
+      const normalized = normalizeFileEdit(raw);
+      if (!normalized || fileEditKeys.has(normalized.key)) { return; }
+      fileEditKeys.add(normalized.key);
+      fileEdits.push(escapeMarkdownInline(normalized.label));
+    };
+    const markdownChunks: string[] = [];
+
+    for (const part of req.response || []) {
+      switch (part.kind) {
+        case 'markdownContent': {
+          const content = part.content;
+          const text = typeof content === 'string'
+            ? content
+            : (content as { value?: string } | null)?.value || '';
+          if (text) { markdownChunks.push(highlight(escapeHtml(text))); }
+          break;
+        }
+        case 'toolInvocationSerialized': {
+          const rec = part as Record<string, unknown>;
+          const name = String(rec.toolId || rec.toolName || '');
+          const detail = String(rec.invocationMessage || rec.input || '');
+          if (name) { tools.push({ name, detail }); }
+          break;
+        }
+        case 'thinking': {
+          const content = part.content;
+          const text = typeof content === 'string'
+            ? content
+            : (content as { value?: string } | null)?.value || '';
+          if (text) { thinkingBlocks.push(text); }
+          break;
+        }
+        case 'textEditGroup':
+        case 'codeblockUri': {
+          const uri = part.uri;
+          let uriStr = '';
+          if (typeof uri === 'string') { uriStr = uri; }
+          else if (uri && typeof uri === 'object' && 'path' in uri) { uriStr = (uri as { path: string }).path; }
+          if (uriStr) { pushFileEdit(uriStr); }
+          break;
+        }
+      }
+    }
+    if (markdownChunks.length > 0) {
+      lines.push(markdownChunks.join('\n\n'));
+      lines.push('');
+    } else {
+      lines.push('*(no text response)*');
+      lines.push('');
+    }
+
+    if (tools.length > 0) {
+      lines.push(`<details>`);
+      lines.push(`<summary>🔧 Tools Used (${tools.length})</summary>`);
+      lines.push('');
+      for (const t of tools) {
+        const safeName = escapeMarkdownInline(t.name);
+        const safeDetail = t.detail ? escapeMarkdownInline(t.detail) : '';
+        lines.push(safeDetail ? `- **${safeName}** — ${safeDetail}` : `- **${safeName}**`);
+      }
+      lines.push('');
+      lines.push('</details>');
+      lines.push('');
+    }
+
+    if (thinkingBlocks.length > 0) {
+      lines.push('<details>');
+      lines.push('<summary>💭 Thinking</summary>');
+      lines.push('');
+      lines.push(thinkingBlocks.map(b => escapeHtml(b)).join('\n\n'));
+      lines.push('');
+      lines.push('</details>');
+      lines.push('');
+    }
+
+    if (fileEdits.length > 0) {
+      lines.push(`*📁 File edits: ${fileEdits.join(', ')}*`);
+      lines.push('');
+    }
+
+    // Per-turn stats as table
+    const hasStats = req.usage?.totalTokens || req.result?.timings?.totalElapsed;
+    if (hasStats) {
+      lines.push('| Tokens | Prompt | Completion | Duration |');
+      lines.push('|--------|--------|------------|----------|');
+      const tok = req.usage?.totalTokens?.toLocaleString() ?? '—';
+      const prompt = req.usage?.promptTokens?.toLocaleString() ?? '—';
+      const completion = req.usage?.completionTokens?.toLocaleString() ?? '—';
+      const duration = req.result?.timings?.totalElapsed
+        ? `${(req.result.timings.totalElapsed / 1000).toFixed(1)}s`
+        : '—';
+      lines.push(`| ${tok} | ${prompt} | ${completion} | ${duration} |`);
+      lines.push('');
+    }
+
+    if (req.vote) {
+      lines.push(req.vote === 1
+        ? '👍 Upvoted'
+        : `👎 Downvoted${req.voteDownReason ? ` — ${escapeHtml(req.voteDownReason)}` : ''}`);
+      lines.push('');
+    }
+
+    if (req.result?.errorDetails?.message) {
+      const errLines = req.result.errorDetails.message.split('\n');
+      for (const errLine of errLines) {
+        lines.push(errLine ? `> ⚠️ **Error**: ${escapeHtml(errLine)}` : '>');
+      }
+      lines.push('');
+    }
+
+    lines.push('---');
+    lines.push('');
+  }
+
+  lines.push('## 📦 Storage');
+  lines.push('');
+  if (summary.archivedAt) {
+    lines.push(`- **Archived**: ${new Date(summary.archivedAt).toLocaleString()} (session file deleted)`);
+  } else if (summary.source === 'vscode') {
+    lines.push(`- **JSONL lines**: ${rawLineCount} (1 initial + ${Math.max(0, rawLineCount - 1)} mutations)`);
+  }
+  if (summary.source !== 'vscode') {
+    lines.push(`- **Source**: ${escapeMarkdownInline(sourceLabel(summary.source))}`);
+  }
+  lines.push(`- **File**: ${formatCodeSpan(summary.filePath)}`);
+  lines.push(`- **Storage type**: ${summary.storageType}`);
+  lines.push(`- **Session ID**: ${formatCodeSpan(session.sessionId)}`);
+
+  return toRendered(lines, turnHeadings);
+}
+
+/**
+ * Render a compact per-turn summary of a session (prompts, agents, context
+ * variables and the start of each response).
+ */
+export function renderSessionDetail(
+  session: SerializableChatData,
+  summary: SessionSummary,
+  opts: { rawLineCount: number; alternateView?: ViewLink },
+): RenderedSession {
+  const { rawLineCount } = opts;
+  const sessionTitle = escapeHtml(session.customTitle || session.sessionId);
+  const turnHeadings: number[] = [];
+  const lines: string[] = [
+    `# Chat Session: ${sessionTitle}`,
+    '',
+    `- **Session ID**: ${formatCodeSpan(session.sessionId)}`,
+    `- **Created**: ${new Date(session.creationDate).toLocaleString()}`,
+    `- **Turns**: ${session.requests.length}`,
+    `- **Version**: ${session.version}`,
+    '',
+    ...alternateViewLink(opts.alternateView),
+    '---',
+    '',
+  ];
+
+  for (let i = 0; i < session.requests.length; i++) {
+    const req = session.requests[i];
+    turnHeadings.push(lines.length);
+    lines.push(`## Turn ${i + 1}`);
+    lines.push('');
+    const userModel = req.modelId || 'unknown model';
+    lines.push(`**User** (${escapeMarkdownInline(userModel)}):`);
+    lines.push('');
+    const promptText = escapeHtml(req.message?.text || '(empty)');
+    for (const promptLine of promptText.split('\n')) {
+      lines.push(promptLine ? `> ${promptLine}` : '>');
+    }
+    lines.push('');
+
+    if (req.agent?.id || req.agent?.agentId) {
+      const agentLabel = (req.agent.id || req.agent.agentId)!;
+      lines.push(`*Agent*: ${escapeMarkdownInline(agentLabel)}`);
+    }
+
+    if (req.variableData?.variables && req.variableData.variables.length > 0) {
+      const vars = req.variableData.variables.map(v => formatCodeSpan(v.name)).join(', ');
+      lines.push(`*Context variables*: ${vars}`);
+    }
+
+    // Extract text from response parts
+    const responseParts: string[] = [];
+    for (const part of req.response || []) {
+      if (part.kind === 'markdownContent' && part.content) {
+        const content = typeof part.content === 'string'
+          ? part.content
+          : (part.content as { value?: string })?.value || '';
+        if (content) {
+          responseParts.push(escapeHtml(content.substring(0, 500)));
+        }
+      } else if (part.kind === 'toolInvocationSerialized') {
+        const toolName = String((part as Record<string, unknown>).toolName || 'unknown');
+        responseParts.push(`[Tool: ${escapeMarkdownInline(toolName)}]`);
+      } else if (part.kind === 'thinking') {
+        responseParts.push(`[Thinking...]`);
+      }
+    }
+
+    if (responseParts.length > 0) {
+      lines.push('');
+      lines.push('**Assistant**:');
+      lines.push('');
+      lines.push(responseParts.join('\n\n'));
+    }
+
+    if (req.usage) {
+      lines.push('');
+      lines.push(`*Tokens*: ${req.usage.totalTokens?.toLocaleString() || '?'} (prompt: ${req.usage.promptTokens?.toLocaleString() || '?'}, completion: ${req.usage.completionTokens?.toLocaleString() || '?'})`);
+    }
+
+    if (req.vote) {
+      const downReason = req.voteDownReason ? ` (${escapeMarkdownInline(req.voteDownReason)})` : '';
+      lines.push(`*Vote*: ${req.vote === 1 ? '👍' : '👎'}${downReason}`);
+    }
+
+    lines.push('');
+    lines.push('---');
+    lines.push('');
+  }
+
+  lines.push(`## Storage Info`);
+  lines.push('');
+  if (summary.archivedAt) {
+    lines.push(`- **Archived**: ${new Date(summary.archivedAt).toLocaleString()} (session file deleted)`);
+  } else if (summary.source === 'vscode') {
+    lines.push(`- **JSONL lines**: ${rawLineCount} (1 initial + ${Math.max(0, rawLineCount - 1)} mutations)`);
+  }
+  if (summary.source !== 'vscode') {
+    lines.push(`- **Source**: ${escapeMarkdownInline(sourceLabel(summary.source))}`);
+  }
+  lines.push(`- **File**: ${formatCodeSpan(summary.filePath)}`);
+  lines.push(`- **Storage type**: ${escapeMarkdownInline(summary.storageType)}`);
+
+  return toRendered(lines, turnHeadings);
+}
+
+/** Join rendered lines, mapping the indexes of turn headings to line numbers. */
+function toRendered(lines: string[], turnHeadings: number[]): RenderedSession {
+  // Entries of `lines` may span several lines
+  const turnLines: number[] = [];
+  let line = 0;
+  for (let i = 0, next = 0; i < lines.length; i++) {
+    if (turnHeadings[next] === i) {
+      turnLines.push(line);
+      next++;
+    }
+    line += lines[i].split('\n').length;
+  }
+  return { content: lines.join('\n'), turnLines };
+}
+
+function alternateViewLink(link: ViewLink | undefined): string[] {
+  return link ? [`*[${link.label}](${link.uri})*`, ''] : [];
+}
+
+/** Matches fenced code lines, inline code spans and link targets, which are left unhighlighted. */
+const FENCE = /^\s*(>\s*)*(`{3,}|~{3,})/;
+const CODE_OR_LINK = /(`+)[\s\S]*?\1|\]\([^)]*\)/g;
+
+/**
+ * Wrap occurrences of search terms (as prefixes of words, like the FTS
+ * prefix match) in <mark>. Expects HTML-escaped Markdown; skips code.
+ */
+export function highlightTerms(markdown: string, terms: string[]): string {
+  const words = terms.map(t => escapeHtml(t.trim())).filter(Boolean);
+  if (words.length === 0) { return markdown; }
+  const escaped = words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  // Not preceded by a word character or & (so entities like &amp; stay intact)
+  const pattern = new RegExp(`(?<![\\w&])(?:${escaped.join('|')})[\\w-]*`, 'giu');
+  const mark = (text: string) => text.replace(pattern, '<mark>$&</mark>');
+
+  let inFence = false;
+  return markdown.split('\n').map(line => {
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+      return line;
+    }
+    if (inFence) { return line; }
+    let out = '';
+    let pos = 0;
+    for (const m of line.matchAll(CODE_OR_LINK)) {
+      out += mark(line.slice(pos, m.index)) + m[0];
+      pos = m.index! + m[0].length;
+    }
+    return out + mark(line.slice(pos));
+  }).join('\n');
+}
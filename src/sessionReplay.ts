@@ -0,0 +1,230 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { JsonlSessionReader } from './jsonlReader';
+import { MutationEntry, ObjectPath, SerializableChatData } from './types';
+
+const REPLAY_SCHEME = 'session-replay';
+
+/** One line of the operation log; step 0 is the initial snapshot. */
+interface ReplayStep {
+  /** Zero-based line number in the session file. */
+  line: number;
+  entry?: MutationEntry;
+  /** Why the line can't be applied; the state is unchanged by this step. */
+  error?: string;
+  label: string;
+}
+
+/**
+ * A session's operation log loaded for stepping. States are rebuilt on
+ * demand from the nearest cached checkpoint, so jumping around a long log
+ * doesn't replay it from the start every time.
+ */
+class SessionReplay {
+  private static readonly CHECKPOINT_EVERY = 50;
+
+  private readonly checkpoints = new Map<number, SerializableChatData>();
+  private readonly failures = new Map<number, string>();
+
+  private constructor(
+    readonly filePath: string,
+    readonly steps: ReplayStep[],
+    private readonly reader: JsonlSessionReader,
+  ) {}
+
+  static async load(reader: JsonlSessionReader, filePath: string): Promise<SessionReplay> {
+    const steps: ReplayStep[] = [];
+    for await (const line of reader.readLines(filePath)) {
+      if (line.oversized) {
+        steps.push({ line: line.line, error: 'Line exceeds the maximum line size', label: 'oversized line' });
+        continue;
+      }
+      try {
+        const entry = JSON.parse(line.text) as MutationEntry;
+        steps.push({ line: line.line, entry, label: describeEntry(entry) });
+      } catch {
+        steps.push({ line: line.line, error: 'Malformed JSON', label: 'malformed line' });
+      }
+    }
+    return new SessionReplay(filePath, steps, reader);
+  }
+
+  /** Reconstructed state after applying steps 0..index. */
+  stateAt(index: number): { state: SerializableChatData | undefined; error?: string } {
+    let start = 0;
+    let state: SerializableChatData | undefined;
+    for (let i = index - (index % SessionReplay.CHECKPOINT_EVERY); i > 0; i -= SessionReplay.CHECKPOINT_EVERY) {
+      const cached = this.checkpoints.get(i);
+      if (cached) {
+        state = structuredClone(cached);
+        start = i + 1;
+        break;
+      }
+    }
+
+    for (let i = start; i <= index && i < this.steps.length; i++) {
+      const step = this.steps[i];
+      if (step.entry) {
+        if (!state) {
+          const entry = step.entry as { kind?: unknown; v?: unknown };
+          if (entry.kind === 0 && entry.v && typeof entry.v === 'object') {
+            state = structuredClone(entry.v) as SerializableChatData;
+          } else {
+            this.failures.set(i, 'Not an initial snapshot');
+          }
+        } else {
+          const failure = this.reader.applyMutation(state, step.entry);
+          if (failure) { this.failures.set(i, `${failure.reason}: ${formatPath(failure.path)}`); }
+        }
+      }
+      if (state && i > 0 && i % SessionReplay.CHECKPOINT_EVERY === 0 && !this.checkpoints.has(i)) {
+        this.checkpoints.set(i, structuredClone(state));
+      }
+    }
+    return { state, error: this.steps[index]?.error ?? this.failures.get(index) };
+  }
+}
+
+/**
+ * Serves the reconstructed state of a session at a given step as a
+ * read-only JSON document: session-replay:/{name}@{step}.jsonc?file=…&step=N
+ */
+class SessionReplayProvider implements vscode.TextDocumentContentProvider {
+  private readonly replays = new Map<string, SessionReplay>();
+
+  constructor(private readonly reader: JsonlSessionReader) {}
+
+  async open(filePath: string): Promise<SessionReplay> {
+    // Reload on every open so appended lines show up
+    const replay = await SessionReplay.load(this.reader, filePath);
+    this.replays.set(filePath, replay);
+    return replay;
+  }
+
+  async get(filePath: string): Promise<SessionReplay> {
+    return this.replays.get(filePath) ?? this.open(filePath);
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const { filePath, step } = parseReplayUri(uri);
+    if (step < 0) { return ''; }
+    const replay = await this.get(filePath);
+    const { state, error } = replay.stateAt(step);
+    const header = error ? `// Step ${step} was not applied: ${error}\n` : '';
+    return header + JSON.stringify(state ?? null, null, 2);
+  }
+}
+
+function replayUri(filePath: string, step: number): vscode.Uri {
+  const name = path.basename(filePath, '.jsonl');
+  const query = new URLSearchParams({ file: filePath, step: String(step) }).toString();
+  return vscode.Uri.from({ scheme: REPLAY_SCHEME, path: `/${name}@${Math.max(step, 0)}.jsonc`, query });
+}
+
+function parseReplayUri(uri: vscode.Uri): { filePath: string; step: number } {
+  const params = new URLSearchParams(uri.query);
+  return { filePath: params.get('file') ?? '', step: Number(params.get('step') ?? 0) };
+}
+
+function formatPath(p: ObjectPath): string {
+  return p.map((key, i) => typeof key === 'number' ? `[${key}]` : `${i > 0 ? '.' : ''}${key}`).join('') || '(root)';
+}
+
+function describeEntry(entry: MutationEntry): string {
+  const e = entry as { kind?: unknown; k?: unknown; i?: unknown; v?: unknown };
+  const target = Array.isArray(e.k) ? formatPath(e.k as ObjectPath) : '';
+  switch (e.kind) {
+    case 0: return 'snapshot';
+    case 1: return `set ${target}`;
+    case 2: {
+      const count = Array.isArray(e.v) ? e.v.length : 0;
+      return typeof e.i === 'number'
+        ? `splice ${target} at ${e.i}${count ? ` + ${count}` : ''}`
+        : `push ${count} to ${target}`;
+    }
+    case 3: return `delete ${target}`;
+    default: return `unknown kind ${JSON.stringify(e.kind)}`;
+  }
+}
+
+export function registerReplayCommands(
+  context: vscode.ExtensionContext,
+  reader: JsonlSessionReader,
+): void {
+  const provider = new SessionReplayProvider(reader);
+
+  const showStep = async (replay: SessionReplay, step: number) => {
+    const index = Math.min(Math.max(step, 0), replay.steps.length - 1);
+    const title = `${path.basename(replay.filePath)} — step ${index}/${replay.steps.length - 1}: ${replay.steps[index].label}`;
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      replayUri(replay.filePath, index - 1),
+      replayUri(replay.filePath, index),
+      title,
+      { preview: true },
+    );
+  };
+
+  const activeReplay = async (): Promise<{ replay: SessionReplay; step: number } | undefined> => {
+    const uri = vscode.window.activeTextEditor?.document.uri;
+    if (uri?.scheme !== REPLAY_SCHEME) {
+      vscode.window.showInformationMessage('Open a session with "Replay Session" first');
+      return undefined;
+    }
+    const { filePath, step } = parseReplayUri(uri);
+    return { replay: await provider.get(filePath), step };
+  };
+
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(REPLAY_SCHEME, provider),
+
+    vscode.commands.registerCommand('sessionTrace.replaySession', async (item?: { session?: { filePath: string; source?: string } }) => {
+      if (item?.session?.source && item.session.source !== 'vscode') {
+        vscode.window.showInformationMessage('Only VS Code chat session files have a mutation log to replay');
+        return;
+      }
+      const filePath = item?.session?.filePath ?? vscode.window.activeTextEditor?.document.uri.fsPath;
+      if (!filePath || !filePath.endsWith('.jsonl')) {
+        vscode.window.showErrorMessage('Select a session in the Session Trace view or open a .jsonl session file to replay');
+        return;
+      }
+      let replay: SessionReplay;
+      try {
+        replay = await provider.open(filePath);
+      } catch (err) {
+        vscode.window.showErrorMessage(`Failed to read session: ${err}`);
+        return;
+      }
+      if (replay.steps.length === 0) {
+        vscode.window.showErrorMessage('Session file is empty');
+        return;
+      }
+      await showStep(replay, 0);
+    }),
+
+    vscode.commands.registerCommand('sessionTrace.replayNext', async () => {
+      const active = await activeReplay();
+      if (active) { await showStep(active.replay, active.step + 1); }
+    }),
+
+    vscode.commands.registerCommand('sessionTrace.replayPrevious', async () => {
+      const active = await activeReplay();
+      if (active) { await showStep(active.replay, active.step - 1); }
+    }),
+
+    vscode.commands.registerCommand('sessionTrace.replayGoTo', async () => {
+      const active = await activeReplay();
+      if (!active) { return; }
+      const items = active.replay.steps.map((step, index) => ({
+        label: `${index === active.step ? '$(arrow-right) ' : ''}#${index} ${step.label}`,
+        description: `line ${step.line + 1}${step.error ? ` · ${step.error}` : ''}`,
+        index,
+      }));
+      const pick = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Jump to a step of the mutation log…',
+        matchOnDescription: true,
+      });
+      if (pick) { await showStep(active.replay, pick.index); }
+    }),
+  );
+}
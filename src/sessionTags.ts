@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { ChatDatabase } from './database';
+import { SessionItem } from './sessionTreeView';
+import { STARRED_TAG } from './utils';
+
+/** Tags are lowercase, without a leading `#`, with whitespace turned into dashes. */
+function normalizeTag(raw: string): string {
+  return raw.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase();
+}
+
+/**
+ * Star, tag and annotate sessions. Marks live in the user tables
+ * `session_tags` and `session_notes`, so they survive reindexing.
+ * `onDidChange` is called after every change so views can refresh.
+ */
+export function registerSessionTagCommands(
+  context: vscode.ExtensionContext,
+  db: ChatDatabase,
+  onDidChange: () => void,
+): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('sessionTrace.toggleStar', async (item: SessionItem) => {
+      const { sessionId } = item.session;
+      const { tags } = await db.getSessionMarks(sessionId);
+      if (tags.includes(STARRED_TAG)) {
+        await db.removeSessionTag(sessionId, STARRED_TAG);
+      } else {
+        await db.addSessionTag(sessionId, STARRED_TAG);
+      }
+      onDidChange();
+    }),
+
+    vscode.commands.registerCommand('sessionTrace.tagSession', async (item: SessionItem) => {
+      const { sessionId } = item.session;
+      const [{ tags }, allTags] = await Promise.all([db.getSessionMarks(sessionId), db.listTags()]);
+      const own = tags.filter(t => t !== STARRED_TAG);
+      const known = allTags.map(t => t.tag).filter(t => t !== STARRED_TAG);
+      const input = await vscode.window.showInputBox({
+        title: `Tags for "${item.session.title || sessionId}"`,
+        prompt: known.length > 0
+          ? `Comma-separated tags. In use: ${known.slice(0, 12).join(', ')}`
+          : 'Comma-separated tags, e.g. auth, design',
+        value: own.join(', '),
+      });
+      if (input === undefined) { return; }
+      const next = input.split(',').map(normalizeTag).filter(Boolean);
+      // Starring is separate from tagging; keep the star
+      await db.setSessionTags(sessionId, tags.includes(STARRED_TAG) ? [...next, STARRED_TAG] : next);
+      onDidChange();
+    }),
+
+    vscode.commands.registerCommand('sessionTrace.editSessionNote', async (item: SessionItem) => {
+      const { sessionId } = item.session;
+      const { note } = await db.getSessionMarks(sessionId);
+      const input = await vscode.window.showInputBox({
+        title: `Note for "${item.session.title || sessionId}"`,
+        prompt: 'What this conversation is about. Leave empty to remove the note.',
+        value: note,
+      });
+      if (input === undefined) { return; }
+      await db.setSessionNote(sessionId, input.trim());
+      onDidChange();
+    }),
+  );
+}
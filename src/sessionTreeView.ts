@@ -1,15 +1,28 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ChatDatabase } from './database';
-import { SessionSummary, TurnRow } from './types';
+import {
+  ActivityTurn, AnnotationRow, FileActivity, SessionListOptions, SessionMarks, SessionSummary, ToolActivity, TurnRow,
+} from './types';
+import { STARRED_TAG } from './utils';
+import { sourceLabel } from './sourceAdapters';
 
-export type ViewMode = 'sessions' | 'recent';
+export type ViewMode = 'sessions' | 'recent' | 'files' | 'tools';
 export type SortBy = 'date' | 'turns' | 'name';
+/** How the sessions view nests sessions; date buckets use the creation date. */
+export type GroupBy = 'none' | 'workspace' | 'day' | 'week' | 'month' | 'model' | 'agent' | 'storage';
 export type FilterType = 'all' | 'current' | 'workspace' | 'global' | 'transferred';
+export interface OriginFilter { installation: string; profile: string }
+/** Which sessions to show by archive state; archived sessions' files were deleted. */
+export type ArchiveFilter = 'all' | 'live' | 'archived';
 
-type TreeItem = CategoryItem | SessionItem | DetailItem | SessionHeaderItem | MessageItem | MessageDetailItem;
+type TreeItem = CategoryItem | SessionItem | DetailItem | AnnotationItem | FolderItem | FileActivityItem | ToolActivityItem
+  | SessionHeaderItem | MessageItem | MessageDetailItem;
 
 export class SessionTreeProvider implements vscode.TreeDataProvider<TreeItem> {
   private static readonly RECENT_LIMIT = 10;
+  /** Most annotations loaded when a session is expanded. */
+  private static readonly ANNOTATION_LIMIT = 2000;
 
   private _onDidChangeTreeData = new vscode.EventEmitter<TreeItem | undefined | void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
@@ -17,6 +30,13 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<TreeItem> {
   // sessions-mode state
   private _sessions: SessionSummary[] = [];
 
+  // User tags and notes, by session id; loaded with the sessions
+  private _marks: Map<string, SessionMarks> | undefined;
+
+  // files- and tools-mode state
+  private _files: FileActivity[] | undefined;
+  private _tools: ToolActivity[] | undefined;
+
   // recent-mode state
   private _recentSessions: { summary: SessionSummary; turns: TurnRow[] }[] = [];
   private _recentLoading = false;
@@ -28,8 +48,13 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<TreeItem> {
   // view state
   private _viewMode: ViewMode = 'sessions';
   private _sortBy: SortBy = 'date';
+  private _groupBy: GroupBy = 'workspace';
   private _filterType: FilterType = 'current';
   private _filterDays = 30;
+  private _filterOrigin: OriginFilter | undefined;
+  private _filterSource: string | undefined;
+  private _filterArchive: ArchiveFilter = 'all';
+  private _filterTag: string | undefined;
   private _currentWorkspaceId: string | undefined;
   private _currentWorkspaceLabel: string | undefined;
 
@@ -37,8 +62,13 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<TreeItem> {
 
   get viewMode(): ViewMode { return this._viewMode; }
   get sortBy(): SortBy { return this._sortBy; }
+  get groupBy(): GroupBy { return this._groupBy; }
   get filterType(): FilterType { return this._filterType; }
   get filterDays(): number { return this._filterDays; }
+  get filterOrigin(): OriginFilter | undefined { return this._filterOrigin; }
+  get filterSource(): string | undefined { return this._filterSource; }
+  get filterArchive(): ArchiveFilter { return this._filterArchive; }
+  get filterTag(): string | undefined { return this._filterTag; }
 
   setCurrentWorkspace(id: string | undefined, label?: string): void {
     this._currentWorkspaceId = id;
@@ -58,18 +88,46 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<TreeItem> {
     this._invalidate();
   }
 
+  setGroupBy(groupBy: GroupBy): void {
+    this._groupBy = groupBy;
+    this._invalidate();
+  }
+
   setFilter(type: FilterType, days: number): void {
     this._filterType = type;
     this._filterDays = days;
     this._invalidate();
   }
 
+  setOriginFilter(origin: OriginFilter | undefined): void {
+    this._filterOrigin = origin;
+    this._invalidate();
+  }
+
+  setSourceFilter(source: string | undefined): void {
+    this._filterSource = source;
+    this._invalidate();
+  }
+
+  setArchiveFilter(filter: ArchiveFilter): void {
+    this._filterArchive = filter;
+    this._invalidate();
+  }
+
+  setTagFilter(tag: string | undefined): void {
+    this._filterTag = tag;
+    this._invalidate();
+  }
+
   refresh(): void {
     this._invalidate();
   }
 
   private _invalidate(): void {
     this._sessions = [];
+    this._marks = undefined;
+    this._files = undefined;
+    this._tools = undefined;
     this._recentSessions = [];
     this._recentLoading = false;
     this._recentLoadingDone = false;
@@ -84,14 +142,34 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<TreeItem> {
       if (this._viewMode === 'recent') {
         return this._getRecentRoot();
       }
+      if (this._viewMode === 'files') {
+        return this._getFilesRoot();
+      }
+      if (this._viewMode === 'tools') {
+        return this._getToolsRoot();
+      }
       return this._getSessionsRoot();
     }
 
     if (element instanceof CategoryItem) {
-      return element.sessions.map(s => new SessionItem(s));
+      const marks = await this._getMarks();
+      return element.sessions.map(s => new SessionItem(s, marks.get(s.sessionId)));
     }
     if (element instanceof SessionItem) {
-      return this._getSessionDetails(element.session);
+      const marks = await this._getMarks();
+      return [
+        ...this._getSessionDetails(element.session, marks.get(element.session.sessionId)),
+        ...await this._getAnnotationGroups(element.session),
+      ];
+    }
+    if (element instanceof AnnotationItem || element instanceof FolderItem) {
+      return element.children;
+    }
+    if (element instanceof FileActivityItem) {
+      return this._getFileTurns(element);
+    }
+    if (element instanceof ToolActivityItem) {
+      return this._getToolTurns(element);
     }
     if (element instanceof SessionHeaderItem) {
       return element.turns.map((turn, i) => new MessageItem(turn, i, element.turns.length));
@@ -108,13 +186,7 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<TreeItem> {
 
   private async _getSessionsRoot(): Promise<TreeItem[]> {
     if (this._filterType === 'current' && !this._currentWorkspaceId) {
-      const item = new DetailItem(
-        'No workspace open',
-        'Open a folder or switch to All sessions in View Options',
-        '$(info)'
-      );
-      item.command = { command: 'workbench.action.addRootFolder', title: 'Open Folder' };
-      return [item];
+      return [this._noWorkspaceItem()];
     }
     if (this._sessions.length === 0) {
       const opts = this._buildListOpts();
@@ -129,36 +201,138 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<TreeItem> {
       return [new DetailItem('No sessions found', hint, '$(warning)')];
     }
 
-    // When filtering to current workspace, show sessions directly without a root folder
-    if (this._filterType === 'current') {
-      return this._sessions.map(s => new SessionItem(s));
+    // Starred sessions are listed on top as well as in their group
+    const marks = await this._getMarks();
+    const starredSessions = this._sessions.filter(s => marks.get(s.sessionId)?.tags.includes(STARRED_TAG));
+    const starred: TreeItem[] = starredSessions.length > 0
+      ? [new CategoryItem(`Starred (${starredSessions.length})`, starredSessions, 'star-full', 'starred')]
+      : [];
+
+    // When filtering to current workspace, there is only one workspace to group by
+    if (this._groupBy === 'none' || (this._groupBy === 'workspace' && this._filterType === 'current')) {
+      return [...starred, ...this._sessions.map(s => new SessionItem(s, marks.get(s.sessionId)))];
     }
 
-    const grouped = new Map<string, SessionSummary[]>();
+    const groupBy = this._groupBy;
+    const grouped = new Map<string, { group: SessionGroup; sessions: SessionSummary[] }>();
     for (const s of this._sessions) {
-      let key: string;
-      if (s.storageType === 'workspace') {
-        key = s.workspacePath || 'Unknown Workspace';
-      } else if (s.storageType === 'global') {
-        key = 'Empty Window';
-      } else {
-        key = 'Transferred';
+      const group = sessionGroup(s, groupBy);
+      let entry = grouped.get(group.key);
+      if (!entry) {
+        entry = { group, sessions: [] };
+        grouped.set(group.key, entry);
       }
-      if (!grouped.has(key)) { grouped.set(key, []); }
-      grouped.get(key)!.push(s);
+      entry.sessions.push(s);
     }
 
-    const categories: CategoryItem[] = [];
-    for (const [name, sessions] of grouped) {
-      const icon = sessions[0].storageType === 'workspace' ? 'folder' :
-        sessions[0].storageType === 'global' ? 'globe' : 'arrow-swap';
-      categories.push(new CategoryItem(`${name} (${sessions.length})`, sessions, icon));
+    // Groups appear in the order of their first session, except date buckets which are newest first
+    const entries = [...grouped.values()];
+    if (groupBy === 'day' || groupBy === 'week' || groupBy === 'month') {
+      entries.sort((a, b) => Number(b.group.key) - Number(a.group.key));
     }
-    return categories;
+    return [...starred, ...entries.map(({ group, sessions }) => new CategoryItem(
+      `${group.label} (${sessions.length})`, sessions, group.icon, `group:${groupBy}:${group.key}`,
+    ))];
+  }
+
+  private async _getMarks(): Promise<Map<string, SessionMarks>> {
+    this._marks ??= await this.db.listSessionMarks();
+    return this._marks;
   }
 
-  private _buildListOpts(): { maxAgeDays?: number; storageType?: string; workspacePath?: string } {
-    const opts: { maxAgeDays?: number; storageType?: string; workspacePath?: string } = {};
+  private _noWorkspaceItem(): DetailItem {
+    const item = new DetailItem(
+      'No workspace open',
+      'Open a folder or switch to All sessions in View Options',
+      '$(info)'
+    );
+    item.command = { command: 'workbench.action.addRootFolder', title: 'Open Folder' };
+    return item;
+  }
+
+  private async _getFilesRoot(): Promise<TreeItem[]> {
+    if (this._filterType === 'current' && !this._currentWorkspaceId) {
+      return [this._noWorkspaceItem()];
+    }
+    const listOpts = this._buildListOpts();
+    if (!this._files) {
+      this._files = await this.db.listFileActivity(listOpts);
+    }
+    if (this._files.length === 0) {
+      return [new DetailItem('No files found', 'Files appear once conversations edit or reference them', '$(info)')];
+    }
+
+    // Workspaces in order of their most recent activity; each is a folder tree of its files
+    const workspaces = groupBy(this._files, f => workspaceGroup(f.storageType, f.workspacePath).key).map(([, files]) => {
+      const { storageType, workspacePath } = files[0];
+      const root = workspacePath.endsWith('.code-workspace') ? path.dirname(workspacePath) : workspacePath;
+      return {
+        group: workspaceGroup(storageType, workspacePath),
+        tree: fileTree(files, root, { ...listOpts, storageType, workspacePath }),
+      };
+    });
+    if (this._filterType === 'current') {
+      return workspaces[0].tree.items;
+    }
+    return workspaces.map(({ group, tree }) => new FolderItem(
+      `${group.label} (${tree.fileCount})`, tree.items, group.icon, vscode.TreeItemCollapsibleState.Expanded,
+    ));
+  }
+
+  /** Sessions that touched a file, each listing the turns. */
+  private async _getFileTurns(item: FileActivityItem): Promise<TreeItem[]> {
+    const turns = await this.db.getFileTurns(item.refs, item.listOpts);
+    return sessionTurnItems(turns, turn => turnLinkItem(
+      turn,
+      excerpt(turn.promptText),
+      turn.kinds.includes('file_edit') ? 'edit' : 'references',
+      turn.promptText,
+    ));
+  }
+
+  private async _getToolsRoot(): Promise<TreeItem[]> {
+    if (this._filterType === 'current' && !this._currentWorkspaceId) {
+      return [this._noWorkspaceItem()];
+    }
+    const listOpts = this._buildListOpts();
+    if (!this._tools) {
+      this._tools = await this.db.listToolActivity(listOpts);
+    }
+    if (this._tools.length === 0) {
+      return [new DetailItem('No tools found', 'Tools appear once conversations call them', '$(info)')];
+    }
+
+    // Built-in tools first, then MCP servers; both ordered by invocations
+    const groups = groupBy(this._tools, t => parseMcpTool(t.name)?.server ?? '')
+      .sort(([a], [b]) => (a ? 1 : 0) - (b ? 1 : 0));
+    return groups.map(([server, tools]) => {
+      const items = tools.map(t => new ToolActivityItem(t, parseMcpTool(t.name)?.tool ?? t.name, listOpts));
+      const calls = tools.reduce((sum, t) => sum + t.invocations, 0);
+      const group = new FolderItem(
+        server ? `${server} (${tools.length})` : `Built-in (${tools.length})`,
+        items,
+        server ? 'server' : 'tools',
+        vscode.TreeItemCollapsibleState.Expanded,
+      );
+      group.description = `${server ? 'MCP server · ' : ''}${calls.toLocaleString()} call${calls === 1 ? '' : 's'}`;
+      return group;
+    });
+  }
+
+  /** Sessions that called a tool, each listing the turns. */
+  private async _getToolTurns(item: ToolActivityItem): Promise<TreeItem[]> {
+    const turns = await this.db.getToolTurns(item.tool.name, item.listOpts);
+    return sessionTurnItems(turns, turn => turnLinkItem(
+      turn,
+      excerpt(turn.promptText),
+      'comment',
+      turn.promptText,
+      turn.invocations > 1 ? `${turn.invocations} calls` : undefined,
+    ));
+  }
+
+  private _buildListOpts(): SessionListOptions {
+    const opts: SessionListOptions = { excludeEmpty: true };
     if (this._filterType === 'current') {
       opts.storageType = 'workspace';
       opts.workspacePath = this._currentWorkspaceId;
@@ -166,6 +340,13 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<TreeItem> {
       opts.storageType = this._filterType;
     }
     if (this._filterDays > 0) { opts.maxAgeDays = this._filterDays; }
+    if (this._filterOrigin) {
+      opts.installation = this._filterOrigin.installation;
+      opts.profile = this._filterOrigin.profile;
+    }
+    if (this._filterSource) { opts.source = this._filterSource; }
+    if (this._filterArchive !== 'all') { opts.archived = this._filterArchive === 'archived'; }
+    if (this._filterTag) { opts.tag = this._filterTag; }
     return opts;
   }
 
@@ -280,12 +461,23 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<TreeItem> {
     });
   }
 
-  private _getSessionDetails(session: SessionSummary): DetailItem[] {
+  private _getSessionDetails(session: SessionSummary, marks?: SessionMarks): DetailItem[] {
     const items: DetailItem[] = [];
+    if (marks?.note) {
+      items.push(new DetailItem('Note', marks.note, '$(note)'));
+    }
+    const tags = marks?.tags.filter(t => t !== STARRED_TAG) ?? [];
+    if (tags.length > 0) {
+      items.push(new DetailItem('Tags', tags.map(t => `#${t}`).join(' '), '$(tag)'));
+    }
     const date = new Date(session.creationDate);
     const rel = relativeTime(date);
 
     items.push(new DetailItem('Created', `${date.toLocaleDateString()} ${date.toLocaleTimeString()} (${rel})`, '$(calendar)'));
+    if (session.lastMessageDate) {
+      const last = new Date(session.lastMessageDate);
+      items.push(new DetailItem('Last activity', `${last.toLocaleDateString()} ${last.toLocaleTimeString()} (${relativeTime(last)})`, '$(history)'));
+    }
     items.push(new DetailItem('Turns', `${session.requestCount} exchanges`, '$(comment-discussion)'));
     items.push(new DetailItem('File size', formatBytes(session.fileSize), '$(file-binary)'));
     if (session.modelIds.length > 0) {
@@ -305,9 +497,63 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<TreeItem> {
     }
     items.push(new DetailItem('Session ID', session.sessionId, '$(key)'));
     items.push(new DetailItem('Storage', session.storageType, '$(database)'));
+    if (session.installation) {
+      items.push(new DetailItem('Installation', formatOrigin(session), '$(vm)'));
+    }
+    if (session.source !== 'vscode') {
+      items.push(new DetailItem('Source', sourceLabel(session.source), '$(layers)'));
+    }
+    if (session.isExternal) {
+      items.push(new DetailItem('External', 'Owned by another chat provider', '$(link-external)'));
+    }
+    if (session.archivedAt) {
+      const archived = new Date(session.archivedAt);
+      items.push(new DetailItem('Archived', `${archived.toLocaleDateString()} (${relativeTime(archived)}), file deleted`, '$(archive)'));
+    }
     return items;
   }
 
+  /** "Tools (n)", "Edited files (n)", "References (n)" and "Attachments (n)" nodes for a session. */
+  private async _getAnnotationGroups(session: SessionSummary): Promise<AnnotationItem[]> {
+    const [annotations, turns] = await Promise.all([
+      this.db.queryAnnotations({ sessionId: session.sessionId, limit: SessionTreeProvider.ANNOTATION_LIMIT }),
+      this.db.getSessionTurns(session.sessionId),
+    ]);
+    const turnsById = new Map<number, TurnRow>();
+    for (const t of turns) {
+      if (t.id !== undefined) { turnsById.set(t.id, t); }
+    }
+    // Newest first from the DB; list in conversation order
+    const rows = annotations
+      .filter(a => turnsById.has(a.turnId))
+      .sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+    const ofKind = (kind: string) => rows.filter(a => a.kind === kind);
+
+    const groups: AnnotationItem[] = [];
+    const tools = ofKind('tool');
+    if (tools.length > 0) {
+      const toolItems = groupBy(tools, a => a.name).map(([name, calls]) => new AnnotationItem(
+        name,
+        calls.map(call => turnLinkItem(turnsById.get(call.turnId)!, call.detail || name, 'debug-stackframe-dot', call.detail)),
+        'tools',
+        { description: `${calls.length}` },
+      ));
+      groups.push(new AnnotationItem(`Tools (${tools.length})`, toolItems, 'tools'));
+    }
+    const fileGroups: [kind: string, label: string, icon: string][] = [
+      ['file_edit', 'Edited files', 'edit'],
+      ['file_ref', 'References', 'references'],
+      ['attachment', 'Attachments', 'paperclip'],
+    ];
+    for (const [kind, label, icon] of fileGroups) {
+      const files = groupBy(ofKind(kind), a => a.uri || a.name).map(([, refs]) => fileItem(refs, turnsById));
+      if (files.length > 0) {
+        groups.push(new AnnotationItem(`${label} (${files.length})`, files, icon));
+      }
+    }
+    return groups;
+  }
+
   private _getTurnDetails(turn: TurnRow): MessageDetailItem[] {
     const details: MessageDetailItem[] = [];
     if (turn.promptText) {
@@ -351,6 +597,212 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<TreeItem> {
   }
 }
 
+interface SessionGroup {
+  key: string;
+  label: string;
+  icon: string;
+}
+
+const STORAGE_GROUPS: Record<string, Omit<SessionGroup, 'key'>> = {
+  workspace: { label: 'Workspace', icon: 'folder' },
+  global: { label: 'Empty Window', icon: 'globe' },
+  transferred: { label: 'Transferred', icon: 'arrow-swap' },
+};
+
+function sessionGroup(session: SessionSummary, groupBy: Exclude<GroupBy, 'none'>): SessionGroup {
+  switch (groupBy) {
+    case 'workspace':
+      return workspaceGroup(session.storageType, session.workspacePath);
+    case 'storage':
+      return { key: session.storageType, ...storageGroup(session.storageType) };
+    case 'model':
+      // The tree already labels sessions by their first model
+      return { key: session.modelIds[0] ?? '', label: session.modelIds[0] || 'Unknown model', icon: 'hubot' };
+    case 'agent':
+      return { key: session.agents[0] ?? '', label: session.agents[0] || 'No agent', icon: 'person' };
+    default:
+      return dateGroup(new Date(session.creationDate), groupBy);
+  }
+}
+
+function workspaceGroup(storageType: string, workspacePath: string): SessionGroup {
+  if (storageType === 'workspace') {
+    const name = workspacePath || 'Unknown Workspace';
+    return { key: name, label: name, icon: 'folder' };
+  }
+  return { key: storageType, ...storageGroup(storageType) };
+}
+
+function storageGroup(storageType: string): Omit<SessionGroup, 'key'> {
+  return STORAGE_GROUPS[storageType] ?? { label: storageType, icon: 'database' };
+}
+
+/** Calendar bucket in local time; the key is the bucket's start in epoch ms. Weeks start on Monday. */
+function dateGroup(date: Date, unit: 'day' | 'week' | 'month'): SessionGroup {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const start = new Date(date.getFullYear(), date.getMonth(), unit === 'month' ? 1 : date.getDate());
+  let label: string;
+  if (unit === 'day') {
+    const daysAgo = Math.round((today.getTime() - start.getTime()) / 86_400_000);
+    label = daysAgo === 0 ? 'Today'
+      : daysAgo === 1 ? 'Yesterday'
+        : start.toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' });
+  } else if (unit === 'week') {
+    start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+    const thisWeek = new Date(today);
+    thisWeek.setDate(today.getDate() - (today.getDay() + 6) % 7);
+    label = start.getTime() === thisWeek.getTime()
+      ? 'This week'
+      : `Week of ${start.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })}`;
+  } else {
+    label = start.toLocaleDateString(undefined, { year: 'numeric', month: 'long' });
+  }
+  return { key: String(start.getTime()), label, icon: 'calendar' };
+}
+
+/** Group items by key, keeping the order in which keys first appear. */
+function groupBy<T>(items: T[], key: (item: T) => string): [string, T[]][] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) { group.push(item); } else { groups.set(k, [item]); }
+  }
+  return [...groups];
+}
+
+/** A node that opens the rendered session at `turn`. */
+function turnLinkItem(
+  turn: Pick<TurnRow, 'sessionId' | 'turnIndex'>, label: string, icon: string, tooltip?: string, note?: string,
+): AnnotationItem {
+  return new AnnotationItem(label.replace(/\s+/g, ' '), [], icon, {
+    description: note ? `Turn ${turn.turnIndex + 1} · ${note}` : `Turn ${turn.turnIndex + 1}`,
+    tooltip: tooltip || undefined,
+    command: {
+      command: 'sessionTrace.openSessionAtTurn',
+      title: 'Open Turn',
+      arguments: [turn.sessionId, turn.turnIndex],
+    },
+  });
+}
+
+/**
+ * A file, reference or attachment; opens the file if it has one and lists the
+ * turns it appears in. Stored references are URIs or plain paths.
+ */
+function fileItem(refs: AnnotationRow[], turnsById: Map<number, TurnRow>): AnnotationItem {
+  const { uri: ref, name } = refs[0];
+  const resourceUri = referenceUri(ref);
+  const label = name || (resourceUri ? resourceUri.path.split('/').pop() : '') || ref;
+  const turns = [...new Set(refs.map(r => r.turnId))].map(id => turnsById.get(id)!);
+  const children = turns.map(turn => turnLinkItem(turn, excerpt(turn.promptText), 'comment', turn.promptText));
+  const item = new AnnotationItem(label, children, 'file', {
+    description: resourceUri?.scheme === 'file' ? vscode.workspace.asRelativePath(resourceUri) : resourceUri?.toString(true),
+    tooltip: ref || undefined,
+    command: resourceUri
+      ? { command: 'vscode.open', title: 'Open File', arguments: [resourceUri] }
+      : undefined,
+  });
+  // Lets the file icon theme pick the icon
+  if (resourceUri?.scheme === 'file') {
+    item.resourceUri = resourceUri;
+    item.iconPath = vscode.ThemeIcon.File;
+  }
+  return item;
+}
+
+/** A stored file reference (URI or plain path) as a URI; undefined for plain text such as some attachment values. */
+function referenceUri(ref: string): vscode.Uri | undefined {
+  const isPath = ref.startsWith('/') || /^[A-Za-z]:[\\/]/.test(ref);
+  const isUri = !isPath && /^[a-zA-Z][a-zA-Z0-9+.-]*:\S*$/.test(ref);
+  if (!isPath && !isUri) { return undefined; }
+  try {
+    return isUri ? vscode.Uri.parse(ref) : vscode.Uri.file(ref);
+  } catch {
+    return undefined;
+  }
+}
+
+/** One node per session (in the given order) listing its turns. */
+function sessionTurnItems<T extends ActivityTurn>(turns: T[], turnItem: (turn: T) => AnnotationItem): AnnotationItem[] {
+  return groupBy(turns, t => t.sessionId).map(([, sessionTurns]) => {
+    const { sessionTitle, creationDate } = sessionTurns[0];
+    return new AnnotationItem(sessionTitle, sessionTurns.map(turnItem), 'comment-discussion', {
+      description: `${sessionTurns.length} turn${sessionTurns.length === 1 ? '' : 's'} · ${relativeTime(new Date(creationDate))}`,
+    });
+  });
+}
+
+/** Splits `mcp_<server>_<tool>` tool ids; undefined for other tools. */
+function parseMcpTool(name: string): { server: string; tool: string } | undefined {
+  const m = /^mcp_([^_]+)_(.+)$/.exec(name);
+  return m ? { server: m[1], tool: m[2] } : undefined;
+}
+
+function excerpt(prompt: string): string {
+  const text = prompt || '(empty prompt)';
+  return text.length > 80 ? text.substring(0, 80) + '...' : text;
+}
+
+interface FileNode {
+  folders: Map<string, FileNode>;
+  files: FileActivityItem[];
+}
+
+/**
+ * Folder hierarchy of one workspace's files. Paths inside `root` are shown
+ * relative to it; others by their full path. The same file stored as a URI
+ * and as a path is merged, and single-child folder chains are compacted.
+ */
+function fileTree(
+  files: FileActivity[], root: string, listOpts: SessionListOptions,
+): { items: TreeItem[]; fileCount: number } {
+  const merged = groupBy(files, f => {
+    const uri = referenceUri(f.uri);
+    return uri?.scheme === 'file' ? uri.fsPath : uri?.toString() ?? f.uri;
+  });
+
+  const top: FileNode = { folders: new Map(), files: [] };
+  const inRoot = (fsPath: string) => !!root && path.isAbsolute(root)
+    && !path.relative(root, fsPath).startsWith('..') && !path.isAbsolute(path.relative(root, fsPath));
+  for (const [key, entries] of merged) {
+    const uri = referenceUri(entries[0].uri);
+    let segments: string[];
+    if (uri?.scheme === 'file') {
+      segments = (inRoot(key) ? path.relative(root, key) : key).split(path.sep).filter(Boolean);
+    } else if (uri) {
+      segments = [`${uri.scheme}://${uri.authority}`, ...uri.path.split('/').filter(Boolean)];
+    } else {
+      segments = [key];
+    }
+    let node = top;
+    for (const segment of segments.slice(0, -1)) {
+      let child = node.folders.get(segment);
+      if (!child) {
+        child = { folders: new Map(), files: [] };
+        node.folders.set(segment, child);
+      }
+      node = child;
+    }
+    node.files.push(new FileActivityItem(segments[segments.length - 1] ?? key, entries, uri, listOpts));
+  }
+
+  const toItems = (node: FileNode): TreeItem[] => {
+    const folders = [...node.folders].sort(([a], [b]) => a.localeCompare(b)).map(([name, child]) => {
+      while (child.files.length === 0 && child.folders.size === 1) {
+        const [[next, grandchild]] = child.folders;
+        name = `${name}/${next}`;
+        child = grandchild;
+      }
+      return new FolderItem(name, toItems(child), 'folder', vscode.TreeItemCollapsibleState.Collapsed);
+    });
+    const fileItems = [...node.files].sort((a, b) => String(a.label).localeCompare(String(b.label)));
+    return [...folders, ...fileItems];
+  };
+  return { items: toItems(top), fileCount: merged.length };
+}
+
 function relativeTime(date: Date): string {
   const diff = Date.now() - date.getTime();
   const minutes = Math.floor(diff / 60000);
@@ -363,6 +815,10 @@ function relativeTime(date: Date): string {
   return `${Math.floor(days / 30)}mo ago`;
 }
 
+export function formatOrigin(origin: { installation: string; profile: string }): string {
+  return origin.profile ? `${origin.installation} · ${origin.profile}` : origin.installation;
+}
+
 function formatBytes(bytes: number): string {
   if (bytes < 1024) { return `${bytes} B`; }
   if (bytes < 1048576) { return `${(bytes / 1024).toFixed(1)} KB`; }
@@ -373,16 +829,21 @@ class CategoryItem extends vscode.TreeItem {
   constructor(
     label: string,
     public readonly sessions: SessionSummary[],
-    icon: string = 'folder'
+    icon: string = 'folder',
+    id?: string,
   ) {
     super(label, vscode.TreeItemCollapsibleState.Expanded);
+    // A stable id keeps the expanded state when the count in the label changes
+    this.id = id;
     this.iconPath = new vscode.ThemeIcon(icon);
     this.contextValue = 'category';
+    const tokens = sessions.reduce((sum, s) => sum + s.totalTokens, 0);
+    if (tokens > 0) { this.description = `${tokens.toLocaleString()} tokens`; }
   }
 }
 
 export class SessionItem extends vscode.TreeItem {
-  constructor(public readonly session: SessionSummary) {
+  constructor(public readonly session: SessionSummary, marks?: SessionMarks) {
     const label = session.title || session.lastMessage || session.sessionId.substring(0, 8);
     super(label, vscode.TreeItemCollapsibleState.Collapsed);
 
@@ -390,20 +851,29 @@ export class SessionItem extends vscode.TreeItem {
     const turns = session.requestCount;
     const model = session.modelIds[0] || '';
 
-    this.description = `${turns} turns · ${model}`;
+    const starred = !!marks?.tags.includes(STARRED_TAG);
+    const tags = marks?.tags.filter(t => t !== STARRED_TAG).map(t => `#${t}`) ?? [];
+
+    this.description = [`${turns} turns · ${model}${session.archivedAt ? ' · archived' : ''}`, ...tags].join(' ');
     this.tooltip = new vscode.MarkdownString([
       `**${label}**`,
       '',
       `- **Created**: ${date.toLocaleString()}`,
+      ...(session.lastMessageDate ? [`- **Last activity**: ${new Date(session.lastMessageDate).toLocaleString()}`] : []),
       `- **Turns**: ${turns}`,
       `- **Models**: ${session.modelIds.join(', ') || 'unknown'}`,
       `- **Agents**: ${session.agents.join(', ') || 'none'}`,
       `- **Tokens**: ${session.totalTokens.toLocaleString()}`,
+      ...(session.installation ? [`- **Installation**: ${formatOrigin(session)}`] : []),
+      ...(session.source !== 'vscode' ? [`- **Source**: ${sourceLabel(session.source)}`] : []),
+      ...(session.archivedAt ? [`- **Archived**: ${new Date(session.archivedAt).toLocaleString()} (file deleted)`] : []),
       `- **File**: ${session.filePath}`,
+      ...(tags.length > 0 ? [`- **Tags**: ${tags.join(' ')}`] : []),
+      ...(marks?.note ? [`- **Note**: ${marks.note.replace(/\s+/g, ' ')}`] : []),
     ].join('\n'));
 
     this.iconPath = new vscode.ThemeIcon(
-      turns > 10 ? 'comment-unresolved' : 'comment',
+      starred ? 'star-full' : session.archivedAt ? 'archive' : turns > 10 ? 'comment-unresolved' : 'comment',
       turns > 20
         ? new vscode.ThemeColor('charts.red')
         : turns > 5
@@ -424,6 +894,85 @@ class DetailItem extends vscode.TreeItem {
   }
 }
 
+/** A tools/files group, a tool or file within one, or a link to a turn. */
+class AnnotationItem extends vscode.TreeItem {
+  constructor(
+    label: string,
+    public readonly children: AnnotationItem[],
+    icon: string,
+    opts: { description?: string; tooltip?: string; command?: vscode.Command } = {},
+  ) {
+    super(label, children.length > 0
+      ? vscode.TreeItemCollapsibleState.Collapsed
+      : vscode.TreeItemCollapsibleState.None);
+    this.iconPath = new vscode.ThemeIcon(icon);
+    this.description = opts.description;
+    this.tooltip = opts.tooltip;
+    this.command = opts.command;
+    this.contextValue = 'annotation';
+  }
+}
+
+class FolderItem extends vscode.TreeItem {
+  constructor(
+    label: string,
+    public readonly children: TreeItem[],
+    icon: string,
+    state: vscode.TreeItemCollapsibleState,
+  ) {
+    super(label, state);
+    this.iconPath = new vscode.ThemeIcon(icon);
+    this.contextValue = 'folder';
+  }
+}
+
+/** A file in the files view; expands to the sessions and turns that touched it. */
+class FileActivityItem extends vscode.TreeItem {
+  /** The file as stored in annotations, possibly in more than one form. */
+  readonly refs: string[];
+
+  constructor(
+    label: string,
+    entries: FileActivity[],
+    uri: vscode.Uri | undefined,
+    /** Filters the turns listed under the file, matching the view's filters and workspace. */
+    public readonly listOpts: SessionListOptions,
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.Collapsed);
+    this.refs = entries.map(e => e.uri);
+    const edits = entries.reduce((sum, e) => sum + e.edits, 0);
+    const references = entries.reduce((sum, e) => sum + e.references, 0);
+    this.description = [
+      edits ? `${edits} edit${edits === 1 ? '' : 's'}` : '',
+      references ? `${references} ref${references === 1 ? '' : 's'}` : '',
+    ].filter(Boolean).join(' · ');
+    this.tooltip = uri?.scheme === 'file' ? uri.fsPath : entries[0].uri;
+    if (uri) {
+      this.resourceUri = uri;
+      this.iconPath = vscode.ThemeIcon.File;
+      this.command = { command: 'vscode.open', title: 'Open File', arguments: [uri] };
+    }
+    this.contextValue = 'file';
+  }
+}
+
+/** A tool in the tools view; expands to the sessions and turns that called it. */
+class ToolActivityItem extends vscode.TreeItem {
+  constructor(
+    public readonly tool: ToolActivity,
+    label: string,
+    /** Filters the turns listed under the tool, matching the view's filters. */
+    public readonly listOpts: SessionListOptions,
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.Collapsed);
+    const calls = tool.invocations;
+    this.description = `${calls.toLocaleString()} call${calls === 1 ? '' : 's'} · ${relativeTime(new Date(tool.lastUsed))}`;
+    this.tooltip = `${tool.name}\n${calls} calls in ${tool.sessions} session${tool.sessions === 1 ? '' : 's'}, last used ${new Date(tool.lastUsed).toLocaleString()}`;
+    this.iconPath = new vscode.ThemeIcon(parseMcpTool(tool.name) ? 'plug' : 'tools');
+    this.contextValue = 'tool';
+  }
+}
+
 class SessionHeaderItem extends vscode.TreeItem {
   constructor(
     public readonly summary: SessionSummary,
@@ -447,7 +996,7 @@ class SessionHeaderItem extends vscode.TreeItem {
   }
 }
 
-class MessageItem extends vscode.TreeItem {
+export class MessageItem extends vscode.TreeItem {
   constructor(public readonly turn: TurnRow, index: number, total: number) {
     const prompt = turn.promptText || '(empty prompt)';
     const label = prompt.length > 80 ? prompt.substring(0, 80) + '...' : prompt;
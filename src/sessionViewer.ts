@@ -0,0 +1,574 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import MarkdownIt from 'markdown-it';
+import { ChatDatabase } from './database';
+import { MessageItem, SessionItem } from './sessionTreeView';
+import { SerializableChatData, SerializableChatRequest, SessionSummary } from './types';
+import { escapeHtml, extractResponseParts, relativeTime } from './utils';
+
+type ReadSession = (summary: SessionSummary) => Promise<SerializableChatData | null>;
+
+/** Where to put the viewer on open: a turn to scroll to and text for the find box. */
+interface RevealOptions {
+  turnIndex?: number;
+  find?: string;
+}
+
+/** Delay after the last change to the session file before re-rendering. */
+const RERENDER_DEBOUNCE_MS = 300;
+
+/**
+ * Webview panel showing one session: collapsible turns with token and
+ * duration bars, tool calls with their arguments and results, clickable file
+ * references, a turn outline and find. There is one panel per session; it
+ * re-renders when the session file changes, and the webview keeps its scroll
+ * position, collapsed turns and find text across re-renders.
+ */
+class SessionViewerPanel implements vscode.Disposable {
+  private readonly panel: vscode.WebviewPanel;
+  private readonly disposables: vscode.Disposable[] = [];
+  private rerenderTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    private readonly summary: SessionSummary,
+    private readonly readSession: ReadSession,
+    onDispose: () => void,
+  ) {
+    this.panel = vscode.window.createWebviewPanel(
+      'sessionTrace.sessionViewer',
+      summary.title || summary.sessionId.substring(0, 8),
+      vscode.ViewColumn.Active,
+      { enableScripts: true, localResourceRoots: [] },
+    );
+    this.panel.iconPath = new vscode.ThemeIcon('comment-discussion');
+    this.disposables.push(
+      this.panel.onDidDispose(() => {
+        this.dispose();
+        onDispose();
+      }),
+      this.panel.webview.onDidReceiveMessage((msg: { type: string; uri?: string }) => {
+        if (msg.type === 'open' && msg.uri) { openReference(msg.uri).then(undefined, () => {}); }
+      }),
+    );
+
+    // Archived sessions have no file left to watch
+    if (!summary.archivedAt) {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(vscode.Uri.file(path.dirname(summary.filePath)), path.basename(summary.filePath)),
+        true, false, true,
+      );
+      watcher.onDidChange(() => {
+        if (this.rerenderTimer) { clearTimeout(this.rerenderTimer); }
+        this.rerenderTimer = setTimeout(() => { this.render().then(undefined, () => {}); }, RERENDER_DEBOUNCE_MS);
+      });
+      this.disposables.push(watcher);
+    }
+  }
+
+  async render(initial: RevealOptions = {}): Promise<void> {
+    const session = await this.readSession(this.summary);
+    if (!session) {
+      this.panel.webview.html = `<!DOCTYPE html><html><body><p>Failed to read session ${escapeHtml(this.summary.sessionId)}</p></body></html>`;
+      return;
+    }
+    this.panel.title = session.customTitle || this.summary.title || session.sessionId.substring(0, 8);
+    this.panel.webview.html = await renderViewerHtml(this.panel.webview, session, this.summary, initial);
+  }
+
+  reveal(opts: RevealOptions): void {
+    this.panel.reveal();
+    this.panel.webview.postMessage({ type: 'reveal', ...opts }).then(undefined, () => {});
+  }
+
+  dispose(): void {
+    if (this.rerenderTimer) { clearTimeout(this.rerenderTimer); }
+    for (const d of this.disposables.splice(0)) { d.dispose(); }
+    this.panel.dispose();
+  }
+}
+
+/** Open a file reference from the viewer: a URI string or a file system path. */
+/** Schemes a link in a session may open in the editor; web links need confirming. */
+const EDITOR_SCHEMES = new Set(['file', 'vscode-remote', 'untitled']);
+
+async function openReference(ref: string): Promise<void> {
+  const isUri = /^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(ref) && !/^[A-Za-z]:[\\/]/.test(ref);
+  const uri = isUri ? vscode.Uri.parse(ref) : vscode.Uri.file(ref);
+  if (uri.scheme === 'http' || uri.scheme === 'https') {
+    // Links come from model output and tool results, so don't follow them unasked
+    const choice = await vscode.window.showWarningMessage(
+      `Open ${uri.toString(true)} in the browser?`, { modal: true }, 'Open',
+    );
+    if (choice === 'Open') { await vscode.env.openExternal(uri); }
+    return;
+  }
+  if (!EDITOR_SCHEMES.has(uri.scheme)) {
+    vscode.window.showWarningMessage(`Links with the ${uri.scheme}: scheme can't be opened from the Session Viewer`);
+    return;
+  }
+  try {
+    await vscode.commands.executeCommand('vscode.open', uri);
+  } catch (err) {
+    vscode.window.showErrorMessage(`Cannot open ${ref}: ${err}`);
+  }
+}
+
+/** A part's `uri` (string or serialized UriComponents) as a URI string. */
+function partUri(raw: unknown): string {
+  if (typeof raw === 'string') { return raw; }
+  if (raw && typeof raw === 'object' && 'path' in raw) {
+    const c = raw as { scheme?: string; authority?: string; path: string; query?: string; fragment?: string };
+    try {
+      return vscode.Uri.from({ ...c, scheme: c.scheme || 'file' }).toString();
+    } catch {
+      return c.path;
+    }
+  }
+  return '';
+}
+
+function fileLink(uri: string, label?: string): string {
+  const name = label || path.basename(vscode.Uri.parse(uri).path) || uri;
+  return `<a class="file" href="#" data-uri="${escapeHtml(uri)}" title="${escapeHtml(uri)}">${escapeHtml(name)}</a>`;
+}
+
+/**
+ * Responses and tool results are untrusted, so raw HTML in them is rendered
+ * as text. Links keep the schemes openReference handles, plus relative ones.
+ */
+const markdownRenderer = new MarkdownIt({ html: false, linkify: true });
+markdownRenderer.validateLink = (url) => /^(https?|file|vscode-remote|untitled):/i.test(url)
+  || !/^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(url);
+
+function renderMarkdown(text: string): string {
+  return markdownRenderer.render(text);
+}
+
+function prettyJson(value: string): string {
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+}
+
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+function bar(kind: string, value: number, max: number, title: string): string {
+  const width = max > 0 ? Math.max(2, Math.round((value / max) * 100)) : 0;
+  return `<span class="bar ${kind}" title="${escapeHtml(title)}"><span style="width:${value > 0 ? width : 0}%"></span></span>`;
+}
+
+async function renderResponse(req: SerializableChatRequest): Promise<string> {
+  const blocks: string[] = [];
+  let markdown = '';
+  const flush = async () => {
+    if (markdown.trim()) { blocks.push(`<div class="markdown">${renderMarkdown(markdown)}</div>`); }
+    markdown = '';
+  };
+
+  for (const part of req.response || []) {
+    if (!part || typeof part !== 'object') { continue; }
+    switch (part.kind) {
+      case 'markdownContent': {
+        const content = part.content;
+        markdown += typeof content === 'string' ? content : (content as { value?: string } | null)?.value || '';
+        break;
+      }
+      case 'inlineReference': {
+        const ref = part.inlineReference as { name?: string; uri?: unknown } | undefined;
+        const uri = partUri(ref?.uri);
+        // Keep references inline with the surrounding text as a Markdown link
+        markdown += uri ? `[${(ref?.name || path.basename(uri)).replace(/[[\]]/g, '')}](${uri.replace(/[()\s]/g, encodeURIComponent)})` : ref?.name || '';
+        break;
+      }
+      case 'toolInvocationSerialized': {
+        await flush();
+        const call = extractResponseParts([part]).toolCalls[0];
+        if (!call) { break; }
+        const args = call.arguments ? `<div class="label">Arguments</div><pre>${escapeHtml(prettyJson(call.arguments))}</pre>` : '';
+        const result = call.result ? `<div class="label">Result</div><pre>${escapeHtml(call.result)}</pre>` : '';
+        blocks.push([
+          `<details class="tool status-${call.status}">`,
+          `<summary>🔧 <code>${escapeHtml(call.toolId)}</code> ${escapeHtml(call.invocationMessage)}`,
+          ` <span class="status">${call.status}</span>`,
+          call.durationMs ? ` <span class="muted">${formatDuration(call.durationMs)}</span>` : '',
+          '</summary>',
+          args || result ? args + result : '<p class="muted">No arguments or result recorded</p>',
+          '</details>',
+        ].join(''));
+        break;
+      }
+      case 'thinking': {
+        await flush();
+        const content = part.content;
+        const text = typeof content === 'string' ? content : (content as { value?: string } | null)?.value || '';
+        if (text) {
+          blocks.push(`<details class="thinking"><summary>💭 Thinking</summary><div class="markdown">${renderMarkdown(text)}</div></details>`);
+        }
+        break;
+      }
+      case 'textEditGroup': {
+        const uri = partUri(part.uri);
+        if (uri) {
+          await flush();
+          blocks.push(`<div class="edit">📝 Edited ${fileLink(uri)}</div>`);
+        }
+        break;
+      }
+    }
+  }
+  await flush();
+  return blocks.length > 0 ? blocks.join('\n') : '<p class="muted">(no text response)</p>';
+}
+
+async function renderViewerHtml(
+  webview: vscode.Webview,
+  session: SerializableChatData,
+  summary: SessionSummary,
+  initial: RevealOptions,
+): Promise<string> {
+  const nonce = randomBytes(16).toString('base64');
+  const requests = session.requests;
+  const maxTokens = Math.max(0, ...requests.map(r => r.usage?.totalTokens ?? 0));
+  const maxDuration = Math.max(0, ...requests.map(r => r.result?.timings?.totalElapsed ?? 0));
+  const totalTokens = requests.reduce((sum, r) => sum + (r.usage?.totalTokens ?? 0), 0);
+  const title = session.customTitle || summary.title || session.sessionId;
+
+  const outline: string[] = [];
+  const turns: string[] = [];
+  for (let i = 0; i < requests.length; i++) {
+    const req = requests[i];
+    const prompt = req.message?.text || '';
+    const model = req.modelId || '';
+    const agent = req.agent?.id || req.agent?.agentId || '';
+    const tokens = req.usage?.totalTokens ?? 0;
+    const duration = req.result?.timings?.totalElapsed ?? 0;
+    const timestamp = typeof req.timestamp === 'number' && req.timestamp > 0 ? req.timestamp : 0;
+
+    outline.push(`<li><a href="#turn-${i}" data-turn="${i}">${escapeHtml(prompt.replace(/\s+/g, ' ').substring(0, 80) || '(empty prompt)')}</a></li>`);
+
+    const attachments = (req.variableData?.variables ?? []).map(v =>
+      typeof v.value === 'string' && v.value ? fileLink(v.value, v.name || v.id) : `<span class="chip">${escapeHtml(v.name || v.id)}</span>`);
+    const meta = [model, agent ? `@${agent}` : '', timestamp ? relativeTime(timestamp) : ''].filter(Boolean);
+    const vote = req.vote ? (req.vote === 1 ? ' 👍' : ' 👎') : '';
+    const error = req.result?.errorDetails?.message
+      ? `<div class="error">⚠️ ${escapeHtml(req.result.errorDetails.message)}</div>`
+      : '';
+
+    turns.push([
+      `<section class="turn" id="turn-${i}" data-turn="${i}">`,
+      '<details open>',
+      `<summary><span class="turn-title">Turn ${i + 1}</span>${vote} <span class="muted">${escapeHtml(meta.join(' · '))}</span>`,
+      '<span class="bars">',
+      bar('tokens', tokens, maxTokens, tokens ? `${tokens.toLocaleString()} tokens` : 'No token usage recorded'),
+      bar('duration', duration, maxDuration, duration ? formatDuration(duration) : 'No duration recorded'),
+      '</span></summary>',
+      `<div class="prompt">${escapeHtml(prompt || '(empty)')}</div>`,
+      attachments.length > 0 ? `<div class="attachments">📎 ${attachments.join(' ')}</div>` : '',
+      `<div class="response">${await renderResponse(req)}</div>`,
+      error,
+      '</details>',
+      '</section>',
+    ].join('\n'));
+  }
+
+  const stats = [
+    `${requests.length} turns`,
+    totalTokens ? `${totalTokens.toLocaleString()} tokens` : '',
+    `created ${new Date(session.creationDate).toLocaleString()}`,
+    summary.archivedAt ? 'archived' : '',
+  ].filter(Boolean).join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { margin: 0; padding: 0; font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); }
+  header { position: sticky; top: 0; z-index: 2; display: flex; gap: 8px; align-items: center; flex-wrap: wrap; padding: 8px 16px; background: var(--vscode-editor-background); border-bottom: 1px solid var(--vscode-panel-border); }
+  header h1 { font-size: 1.2em; margin: 0; flex: 1 1 auto; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  header input { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); padding: 2px 6px; width: 180px; }
+  button { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 2px 8px; cursor: pointer; }
+  button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+  .layout { display: flex; align-items: flex-start; }
+  nav { position: sticky; top: 48px; flex: 0 0 220px; max-height: calc(100vh - 56px); overflow: auto; padding: 8px; border-right: 1px solid var(--vscode-panel-border); font-size: 0.9em; }
+  nav ol { margin: 0; padding-left: 24px; }
+  nav li { margin: 2px 0; }
+  nav a { color: var(--vscode-foreground); text-decoration: none; display: block; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  nav a.active { color: var(--vscode-textLink-foreground); font-weight: bold; }
+  main { flex: 1 1 auto; min-width: 0; padding: 8px 16px 48px; }
+  .muted { color: var(--vscode-descriptionForeground); }
+  .turn > details > summary { cursor: pointer; padding: 6px 0; border-bottom: 1px solid var(--vscode-panel-border); }
+  .turn-title { font-weight: bold; }
+  .bars { float: right; display: inline-flex; gap: 6px; }
+  .bar { display: inline-block; width: 80px; height: 6px; margin-top: 6px; background: var(--vscode-editorWidget-background); border-radius: 3px; overflow: hidden; }
+  .bar > span { display: block; height: 100%; }
+  .bar.tokens > span { background: var(--vscode-charts-blue); }
+  .bar.duration > span { background: var(--vscode-charts-orange); }
+  .prompt { white-space: pre-wrap; margin: 8px 0; padding: 8px; border-left: 3px solid var(--vscode-textLink-foreground); background: var(--vscode-textBlockQuote-background); }
+  .attachments, .edit { margin: 4px 0; }
+  .chip, a.file { display: inline-block; padding: 0 6px; margin: 1px; border-radius: 3px; background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); text-decoration: none; }
+  a.file:hover { text-decoration: underline; }
+  details.tool, details.thinking { margin: 6px 0; padding: 4px 8px; border: 1px solid var(--vscode-panel-border); border-radius: 4px; }
+  details.tool summary, details.thinking summary { cursor: pointer; }
+  details.tool .status { font-size: 0.85em; padding: 0 4px; border-radius: 3px; background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+  details.tool.status-error .status { background: var(--vscode-inputValidation-errorBackground); }
+  details.tool.status-cancelled .status { opacity: 0.7; }
+  .label { margin-top: 6px; font-weight: bold; font-size: 0.9em; }
+  pre { white-space: pre-wrap; word-break: break-word; padding: 6px; background: var(--vscode-textCodeBlock-background); max-height: 400px; overflow: auto; }
+  .error { margin: 8px 0; padding: 6px; color: var(--vscode-errorForeground); border: 1px solid var(--vscode-inputValidation-errorBorder); }
+  mark.find { background: var(--vscode-editor-findMatchHighlightBackground); color: inherit; }
+  mark.find.current { background: var(--vscode-editor-findMatchBackground); outline: 1px solid var(--vscode-editor-findMatchBorder, transparent); }
+</style>
+</head>
+<body data-initial="${escapeHtml(JSON.stringify(initial))}">
+<header>
+  <h1 title="${escapeHtml(title)}">${escapeHtml(title)}</h1>
+  <span class="muted">${escapeHtml(stats)}</span>
+  <input id="find" type="search" placeholder="Find in session" aria-label="Find in session">
+  <span id="find-count" class="muted"></span>
+  <button id="find-prev" title="Previous Match (Shift+Enter)">↑</button>
+  <button id="find-next" title="Next Match (Enter)">↓</button>
+  <button id="expand-all" title="Expand All Turns">Expand</button>
+  <button id="collapse-all" title="Collapse All Turns">Collapse</button>
+</header>
+<div class="layout">
+  <nav><ol>${outline.join('')}</ol></nav>
+  <main id="turns">${turns.join('\n') || '<p class="muted">This session has no turns.</p>'}</main>
+</div>
+<script nonce="${nonce}">${VIEWER_SCRIPT}</script>
+</body>
+</html>`;
+}
+
+/** Client-side behavior of the viewer: outline, find, file links and state kept across re-renders. */
+const VIEWER_SCRIPT = `
+(function () {
+  const vscode = acquireVsCodeApi();
+  const state = vscode.getState() || {};
+  const initial = JSON.parse(document.body.dataset.initial || '{}');
+  const turns = Array.from(document.querySelectorAll('section.turn'));
+  const outlineLinks = Array.from(document.querySelectorAll('nav a[data-turn]'));
+  const findInput = document.getElementById('find');
+  const findCount = document.getElementById('find-count');
+  let matches = [];
+  let current = -1;
+
+  function save(patch) {
+    Object.assign(state, patch);
+    vscode.setState(state);
+  }
+
+  function revealTurn(index) {
+    const turn = document.getElementById('turn-' + index);
+    if (!turn) { return; }
+    turn.querySelector('details').open = true;
+    turn.scrollIntoView({ block: 'start' });
+    window.scrollBy(0, -document.querySelector('header').offsetHeight);
+  }
+
+  // Collapsed turns, scroll position and find text survive re-renders
+  const closed = new Set(state.closed || []);
+  for (const turn of turns) {
+    if (closed.has(turn.dataset.turn)) { turn.querySelector('details').open = false; }
+  }
+  document.addEventListener('toggle', (e) => {
+    const turn = e.target.parentElement;
+    if (!turn || !turn.classList || !turn.classList.contains('turn')) { return; }
+    if (e.target.open) { closed.delete(turn.dataset.turn); } else { closed.add(turn.dataset.turn); }
+    save({ closed: Array.from(closed) });
+  }, true);
+
+  document.getElementById('expand-all').addEventListener('click', () => {
+    for (const turn of turns) { turn.querySelector('details').open = true; }
+  });
+  document.getElementById('collapse-all').addEventListener('click', () => {
+    for (const turn of turns) { turn.querySelector('details').open = false; }
+  });
+
+  // Outline: jump to a turn and track the one in view
+  document.querySelector('nav').addEventListener('click', (e) => {
+    const link = e.target.closest('a[data-turn]');
+    if (!link) { return; }
+    e.preventDefault();
+    revealTurn(link.dataset.turn);
+  });
+  let scrollTimer;
+  window.addEventListener('scroll', () => {
+    clearTimeout(scrollTimer);
+    scrollTimer = setTimeout(() => {
+      const top = document.querySelector('header').offsetHeight + 8;
+      let active = 0;
+      turns.forEach((turn, i) => { if (turn.getBoundingClientRect().top <= top) { active = i; } });
+      outlineLinks.forEach((link, i) => link.classList.toggle('active', i === active));
+      const atBottom = window.innerHeight + window.scrollY >= document.body.scrollHeight - 4;
+      save({ scrollY: window.scrollY, atBottom });
+    }, 100);
+  });
+
+  // File references and links open in the editor
+  document.addEventListener('click', (e) => {
+    const link = e.target.closest('a');
+    if (!link || link.closest('nav')) { return; }
+    const uri = link.dataset.uri || link.getAttribute('href');
+    if (!uri || uri.startsWith('#')) { return; }
+    e.preventDefault();
+    vscode.postMessage({ type: 'open', uri });
+  });
+
+  // Find: highlight matches across all turns, including collapsed ones
+  function clearFind() {
+    for (const mark of document.querySelectorAll('mark.find')) {
+      const parent = mark.parentNode;
+      parent.replaceChild(document.createTextNode(mark.textContent), mark);
+      parent.normalize();
+    }
+    matches = [];
+    current = -1;
+  }
+
+  function find(query) {
+    clearFind();
+    save({ find: query });
+    if (!query) { findCount.textContent = ''; return; }
+    const needle = query.toLowerCase();
+    const walker = document.createTreeWalker(document.getElementById('turns'), NodeFilter.SHOW_TEXT);
+    const nodes = [];
+    while (walker.nextNode()) { nodes.push(walker.currentNode); }
+    for (const node of nodes) {
+      const text = node.textContent;
+      const lower = text.toLowerCase();
+      let index = lower.indexOf(needle);
+      if (index < 0) { continue; }
+      const fragment = document.createDocumentFragment();
+      let pos = 0;
+      while (index >= 0) {
+        fragment.appendChild(document.createTextNode(text.slice(pos, index)));
+        const mark = document.createElement('mark');
+        mark.className = 'find';
+        mark.textContent = text.slice(index, index + needle.length);
+        fragment.appendChild(mark);
+        matches.push(mark);
+        pos = index + needle.length;
+        index = lower.indexOf(needle, pos);
+      }
+      fragment.appendChild(document.createTextNode(text.slice(pos)));
+      node.parentNode.replaceChild(fragment, node);
+    }
+    findCount.textContent = matches.length ? '' : 'No results';
+  }
+
+  function step(delta) {
+    if (matches.length === 0) { return; }
+    if (current >= 0) { matches[current].classList.remove('current'); }
+    current = (current + delta + matches.length) % matches.length;
+    const mark = matches[current];
+    mark.classList.add('current');
+    for (let el = mark.parentElement; el; el = el.parentElement) {
+      if (el.tagName === 'DETAILS') { el.open = true; }
+    }
+    mark.scrollIntoView({ block: 'center' });
+    findCount.textContent = (current + 1) + ' of ' + matches.length;
+  }
+
+  let findTimer;
+  findInput.addEventListener('input', () => {
+    clearTimeout(findTimer);
+    findTimer = setTimeout(() => find(findInput.value), 150);
+  });
+  findInput.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') {
+      clearTimeout(findTimer);
+      if (findInput.value !== state.find) { find(findInput.value); }
+      step(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      findInput.value = '';
+      find('');
+    }
+  });
+  document.getElementById('find-next').addEventListener('click', () => step(1));
+  document.getElementById('find-prev').addEventListener('click', () => step(-1));
+  document.addEventListener('keydown', (e) => {
+    if ((e.ctrlKey || e.metaKey) && e.key === 'f') {
+      e.preventDefault();
+      findInput.focus();
+      findInput.select();
+    }
+  });
+
+  function apply(opts) {
+    if (opts.find !== undefined) {
+      findInput.value = opts.find;
+      find(opts.find);
+    }
+    if (opts.turnIndex !== undefined) { revealTurn(opts.turnIndex); }
+  }
+
+  window.addEventListener('message', (e) => {
+    if (e.data && e.data.type === 'reveal') { apply(e.data); }
+  });
+
+  if (state.find) {
+    findInput.value = state.find;
+    find(state.find);
+  }
+  if (initial.turnIndex !== undefined || initial.find !== undefined) {
+    apply(initial);
+  } else if (state.atBottom) {
+    // Following a live session: stay at the newest turn
+    window.scrollTo(0, document.body.scrollHeight);
+  } else if (state.scrollY) {
+    window.scrollTo(0, state.scrollY);
+  }
+})();
+`;
+
+export function registerSessionViewerCommands(
+  context: vscode.ExtensionContext,
+  db: ChatDatabase,
+  readSession: ReadSession,
+): void {
+  const panels = new Map<string, SessionViewerPanel>();
+
+  context.subscriptions.push(
+    { dispose: () => { for (const p of panels.values()) { p.dispose(); } } },
+
+    vscode.commands.registerCommand('sessionTrace.openSessionViewer', async (
+      target: SessionItem | MessageItem | string, turnIndex?: number, terms?: string[],
+    ) => {
+      let summary: SessionSummary | undefined;
+      if (target instanceof SessionItem) {
+        summary = target.session;
+      } else {
+        summary = await db.getSession(typeof target === 'string' ? target : target.turn.sessionId);
+        if (target instanceof MessageItem) { turnIndex = target.turn.turnIndex; }
+      }
+      if (!summary) {
+        vscode.window.showErrorMessage('Session is no longer indexed');
+        return;
+      }
+      const opts: RevealOptions = { turnIndex, find: terms?.length ? terms.join(' ') : undefined };
+
+      const existing = panels.get(summary.sessionId);
+      if (existing) {
+        existing.reveal(opts);
+        return;
+      }
+      const sessionId = summary.sessionId;
+      const panel = new SessionViewerPanel(summary, readSession, () => panels.delete(sessionId));
+      panels.set(sessionId, panel);
+      try {
+        await panel.render(opts);
+      } catch (err) {
+        vscode.window.showErrorMessage(`Failed to render session: ${err}`);
+      }
+    }),
+  );
+}
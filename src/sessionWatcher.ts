@@ -0,0 +1,257 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { JsonlSessionReader } from './jsonlReader';
+import { Indexer } from './indexer';
+import { ChatSessionIndexReader } from './sessionIndexReader';
+import { SessionSummary, StorageDirectory } from './types';
+
+/** Result of a watcher-triggered partial reindex. */
+export interface WatchReindexResult {
+  indexed: number;
+  skipped: number;
+  pruned: number;
+  files: string[];
+}
+
+const SESSION_FILE_GLOB = '*.{jsonl,json}';
+const GLOBAL_SESSION_DIRS = ['emptyWindowChatSessions', 'transferredChatSessions'];
+
+/**
+ * Watches the chatSessions directories found by JsonlSessionReader and
+ * incrementally reindexes the session files that change.
+ *
+ * Watchers (all non-recursive):
+ *   - one per discovered chatSessions directory, for *.jsonl / *.json
+ *   - the state.vscdb next to each of those, whose session index holds the
+ *     titles VS Code generates after writing the session file
+ *   - workspaceStorage of every user-data root, for new {hash} directories
+ *   - each {hash} directory without a chatSessions folder yet (new hashes and
+ *     the current window's own storage), for the chatSessions folder appearing
+ *   - globalStorage of every user-data root, for emptyWindow/transferred
+ *     folders appearing
+ *
+ * Events are debounced per file; once a file settles it is queued and the
+ * queue is flushed through Indexer.reindexFiles one batch at a time.
+ */
+export class SessionWatcher implements vscode.Disposable {
+  private readonly _onDidReindex = new vscode.EventEmitter<WatchReindexResult>();
+  readonly onDidReindex = this._onDidReindex.event;
+
+  private readonly dirWatchers = new Map<string, vscode.Disposable>();
+  private readonly pendingDirWatchers = new Map<string, vscode.Disposable>();
+  private readonly rootWatchers: vscode.Disposable[] = [];
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly indexTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly queue = new Map<string, SessionSummary['storageType']>();
+  private flushing: Promise<void> | null = null;
+  private rediscoverTimer: ReturnType<typeof setTimeout> | undefined;
+  private disposed = false;
+
+  constructor(
+    private readonly reader: JsonlSessionReader,
+    private readonly indexer: Indexer,
+    private readonly debounceMs: number,
+    private readonly ownStorageDir?: string,
+  ) {}
+
+  /**
+   * Create watchers for every currently discovered directory plus the
+   * storage roots used to detect directories created later.
+   */
+  async start(): Promise<void> {
+    const dirs = await this.reader.getStorageDirs();
+    if (this.disposed) { return; }
+    for (const dir of dirs) {
+      this.watchSessionDir(dir);
+    }
+
+    for (const root of await this.reader.getUserRoots()) {
+      await this.watchUserRoot(root.path);
+    }
+
+    // The current window's workspace may not have chatted yet
+    if (this.ownStorageDir && !dirs.some(d => path.dirname(d.path) === this.ownStorageDir)) {
+      this.watchPendingHashDir(this.ownStorageDir);
+    }
+  }
+
+  /**
+   * Watch a user-data root for new workspace hash and global session folders.
+   */
+  private async watchUserRoot(rootPath: string): Promise<void> {
+    const workspaceStorage = path.join(rootPath, 'workspaceStorage');
+    const globalStorage = path.join(rootPath, 'globalStorage');
+
+    if (await this.isDirectory(workspaceStorage)) {
+      const watcher = this.createWatcher(workspaceStorage, '*', { change: false, delete: false });
+      watcher.onDidCreate(uri => this.watchPendingHashDir(uri.fsPath));
+      this.rootWatchers.push(watcher);
+    }
+    if (await this.isDirectory(globalStorage)) {
+      const watcher = this.createWatcher(
+        globalStorage,
+        `{${GLOBAL_SESSION_DIRS.join(',')}}`,
+        { change: false, delete: false },
+      );
+      watcher.onDidCreate(() => this.scheduleRediscover());
+      this.rootWatchers.push(watcher);
+    }
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    for (const timer of this.timers.values()) { clearTimeout(timer); }
+    this.timers.clear();
+    for (const timer of this.indexTimers.values()) { clearTimeout(timer); }
+    this.indexTimers.clear();
+    this.queue.clear();
+    if (this.rediscoverTimer) { clearTimeout(this.rediscoverTimer); }
+    for (const w of this.dirWatchers.values()) { w.dispose(); }
+    for (const w of this.pendingDirWatchers.values()) { w.dispose(); }
+    for (const w of this.rootWatchers) { w.dispose(); }
+    this.dirWatchers.clear();
+    this.pendingDirWatchers.clear();
+    this._onDidReindex.dispose();
+  }
+
+  private watchSessionDir(dir: StorageDirectory): void {
+    if (this.dirWatchers.has(dir.path)) { return; }
+    const watcher = this.createWatcher(dir.path, SESSION_FILE_GLOB);
+    const onEvent = (uri: vscode.Uri) => this.scheduleFile(uri.fsPath, dir.type);
+    watcher.onDidCreate(onEvent);
+    watcher.onDidChange(onEvent);
+    watcher.onDidDelete(onEvent);
+
+    const dbPath = ChatSessionIndexReader.databasePath(dir.path);
+    const indexWatcher = this.createWatcher(
+      path.dirname(dbPath), `{${path.basename(dbPath)},${path.basename(dbPath)}-wal}`, { delete: false },
+    );
+    const onIndexEvent = () => this.scheduleIndexRefresh(dir);
+    indexWatcher.onDidCreate(onIndexEvent);
+    indexWatcher.onDidChange(onIndexEvent);
+    this.dirWatchers.set(dir.path, vscode.Disposable.from(watcher, indexWatcher));
+  }
+
+  /** Re-read the session index of a directory once its database settles. */
+  private scheduleIndexRefresh(dir: StorageDirectory): void {
+    if (this.disposed) { return; }
+    const existing = this.indexTimers.get(dir.path);
+    if (existing) { clearTimeout(existing); }
+    this.indexTimers.set(dir.path, setTimeout(async () => {
+      this.indexTimers.delete(dir.path);
+      try {
+        const result = await this.indexer.refreshSessionIndex([dir]);
+        if (!this.disposed && result.indexed > 0) {
+          this._onDidReindex.fire({ indexed: result.indexed, skipped: 0, pruned: 0, files: result.files });
+        }
+      } catch (e) {
+        console.warn('Session Trace: session index refresh failed:', e);
+      }
+    }, this.debounceMs));
+  }
+
+  /**
+   * Wait for `chatSessions` to appear inside a workspace hash directory.
+   */
+  private watchPendingHashDir(hashDir: string): void {
+    if (this.disposed || this.pendingDirWatchers.has(hashDir)) { return; }
+    if (this.dirWatchers.has(path.join(hashDir, 'chatSessions'))) { return; }
+    const watcher = this.createWatcher(hashDir, 'chatSessions', { change: false, delete: false });
+    watcher.onDidCreate(() => {
+      this.pendingDirWatchers.get(hashDir)?.dispose();
+      this.pendingDirWatchers.delete(hashDir);
+      this.scheduleRediscover();
+    });
+    this.pendingDirWatchers.set(hashDir, watcher);
+    // The folder may have been created before the watcher was in place
+    this.isDirectory(path.join(hashDir, 'chatSessions')).then(exists => {
+      if (exists) { this.scheduleRediscover(); }
+    });
+  }
+
+  private scheduleFile(filePath: string, storageType: SessionSummary['storageType']): void {
+    if (this.disposed) { return; }
+    const existing = this.timers.get(filePath);
+    if (existing) { clearTimeout(existing); }
+    this.timers.set(filePath, setTimeout(() => {
+      this.timers.delete(filePath);
+      this.queue.set(filePath, storageType);
+      this.flush();
+    }, this.debounceMs));
+  }
+
+  /**
+   * Re-run discovery, start watching any new directories and index the
+   * files already inside them.
+   */
+  private scheduleRediscover(): void {
+    if (this.disposed) { return; }
+    if (this.rediscoverTimer) { clearTimeout(this.rediscoverTimer); }
+    this.rediscoverTimer = setTimeout(async () => {
+      this.rediscoverTimer = undefined;
+      try {
+        const dirs = await this.reader.rediscover();
+        const added = dirs.filter(d => !this.dirWatchers.has(d.path));
+        if (this.disposed || added.length === 0) { return; }
+        for (const dir of added) {
+          this.watchSessionDir(dir);
+          for (const file of await this.listSessionFiles(dir.path)) {
+            this.queue.set(file, dir.type);
+          }
+        }
+        this.flush();
+      } catch (e) {
+        console.warn('Session Trace: storage rediscovery failed:', e);
+      }
+    }, this.debounceMs);
+  }
+
+  private flush(): void {
+    if (this.flushing || this.disposed) { return; }
+    this.flushing = (async () => {
+      while (this.queue.size > 0 && !this.disposed) {
+        const batch = [...this.queue].map(([filePath, storageType]) => ({ filePath, storageType }));
+        this.queue.clear();
+        try {
+          const result = await this.indexer.reindexFiles(batch);
+          if (!this.disposed && (result.indexed > 0 || result.pruned > 0)) {
+            this._onDidReindex.fire({ ...result, files: batch.map(f => f.filePath) });
+          }
+        } catch (e) {
+          console.warn('Session Trace: watcher reindex failed:', e);
+        }
+      }
+    })().finally(() => { this.flushing = null; });
+  }
+
+  private createWatcher(
+    base: string,
+    pattern: string,
+    events: { create?: boolean; change?: boolean; delete?: boolean } = {},
+  ): vscode.FileSystemWatcher {
+    return vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(base), pattern),
+      events.create === false,
+      events.change === false,
+      events.delete === false,
+    );
+  }
+
+  private async listSessionFiles(dir: string): Promise<string[]> {
+    try {
+      const files = await fs.promises.readdir(dir);
+      return files.filter(f => f.endsWith('.jsonl') || f.endsWith('.json')).map(f => path.join(dir, f));
+    } catch {
+      return [];
+    }
+  }
+
+  private async isDirectory(p: string): Promise<boolean> {
+    try {
+      return (await fs.promises.stat(p)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+}
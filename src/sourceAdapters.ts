@@ -0,0 +1,569 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import { createHash } from 'crypto';
+import {
+  ChatTokenUsage, SerializableChatData, SerializableChatRequest, SerializableChatResponsePart, SessionSummary,
+} from './types';
+import { summarizeRequests } from './utils';
+
+/** A foreign transcript converted into the VS Code session shape. */
+export interface ImportedSession {
+  data: SerializableChatData;
+  /** Folder the conversation ran in, if the format records one. */
+  workspacePath: string;
+}
+
+/**
+ * Converts one tool's local transcript format into SerializableChatData, so
+ * imported conversations are indexed into the same sessions/turns/annotations
+ * rows as VS Code chat sessions.
+ */
+export interface SessionSourceAdapter {
+  /** Stored in the `source` column of imported sessions. */
+  readonly id: string;
+  readonly label: string;
+  /** Transcript files in the tool's default locations. */
+  discover(workspaceFolders: string[]): Promise<string[]>;
+  /** Whether a file found under a configured import path belongs to this adapter. */
+  matches(filePath: string): boolean;
+  read(filePath: string): Promise<ImportedSession | null>;
+}
+
+/**
+ * Claude Code project transcripts: ~/.claude/projects/{encoded-cwd}/{sessionId}.jsonl,
+ * one JSON event per line. A user event that isn't only tool results starts a
+ * new turn; assistant events append text, thinking and tool_use blocks to it.
+ * The file name is the session id: resumed and forked transcripts keep the
+ * original `sessionId` in their events, so that field is not unique per file.
+ */
+export class ClaudeCodeAdapter implements SessionSourceAdapter {
+  readonly id = 'claude-code';
+  readonly label = 'Claude Code';
+
+  async discover(): Promise<string[]> {
+    const configDir = process.env.CLAUDE_CONFIG_DIR || path.join(os.homedir(), '.claude');
+    const projectsDir = path.join(configDir, 'projects');
+    const results: string[] = [];
+    for (const project of await readDirSafe(projectsDir)) {
+      const projectDir = path.join(projectsDir, project);
+      for (const file of await readDirSafe(projectDir)) {
+        if (file.endsWith('.jsonl')) {
+          results.push(path.join(projectDir, file));
+        }
+      }
+    }
+    return results;
+  }
+
+  matches(filePath: string): boolean {
+    return filePath.endsWith('.jsonl');
+  }
+
+  async read(filePath: string): Promise<ImportedSession | null> {
+    let cwd = '';
+    let title: string | undefined;
+    let firstTimestamp = 0;
+    const requests: SerializableChatRequest[] = [];
+    let current: SerializableChatRequest | undefined;
+    // Assistant events repeat their message's usage once per content block
+    let usageByMessage = new Map<string, ClaudeUsage>();
+    // tool_use parts by id, completed when their tool_result arrives in a later user event
+    const toolParts = new Map<string, SerializableChatResponsePart>();
+
+    const finishTurn = () => {
+      if (!current) { return; }
+      current.usage = sumClaudeUsage(usageByMessage);
+      usageByMessage = new Map();
+    };
+
+    for await (const entry of readJsonLines(filePath)) {
+      if (entry.type === 'summary') {
+        if (typeof entry.summary === 'string') { title = entry.summary; }
+        continue;
+      }
+      if ((entry.type !== 'user' && entry.type !== 'assistant') || entry.isSidechain || entry.isMeta) {
+        continue;
+      }
+      const message = entry.message as { role?: string; model?: string; id?: string; content?: unknown; usage?: ClaudeUsage } | undefined;
+      if (!message) { continue; }
+      if (!cwd && typeof entry.cwd === 'string') { cwd = entry.cwd; }
+      const timestamp = typeof entry.timestamp === 'string' ? Date.parse(entry.timestamp) || 0 : 0;
+      if (!firstTimestamp && timestamp) { firstTimestamp = timestamp; }
+
+      const blocks = Array.isArray(message.content) ? message.content as Record<string, unknown>[] : [];
+      if (entry.type === 'user') {
+        for (const block of blocks) {
+          const part = block?.type === 'tool_result' ? toolParts.get(String(block.tool_use_id)) : undefined;
+          if (part) { completeToolPart(part, claudeResultText(block.content), block.is_error === true); }
+        }
+        if (blocks.length > 0 && blocks.every(b => b?.type === 'tool_result')) {
+          continue;
+        }
+        const text = typeof message.content === 'string'
+          ? message.content
+          : blocks.filter(b => b?.type === 'text').map(b => String(b.text ?? '')).join('\n');
+        finishTurn();
+        current = {
+          requestId: typeof entry.uuid === 'string' ? entry.uuid : undefined,
+          timestamp: timestamp || undefined,
+          message: { text },
+          response: [],
+          agent: { id: this.id },
+        };
+        requests.push(current);
+        continue;
+      }
+
+      if (!current) { continue; }
+      if (message.model && message.model !== '<synthetic>') { current.modelId = message.model; }
+      if (message.usage) { usageByMessage.set(message.id || String(entry.uuid), message.usage); }
+      if (timestamp && current.timestamp) {
+        current.result = { timings: { totalElapsed: Math.max(0, timestamp - current.timestamp) } };
+      }
+      for (const block of blocks) {
+        if (block?.type === 'text' && typeof block.text === 'string') {
+          current.response.push({ kind: 'markdownContent', content: { value: block.text } });
+        } else if (block?.type === 'thinking' && typeof block.thinking === 'string') {
+          current.response.push({ kind: 'thinking', content: { value: block.thinking } });
+        } else if (block?.type === 'tool_use') {
+          const part = toolPart(String(block.name ?? ''), describeToolInput(block.input), String(block.id ?? ''), block.input);
+          if (typeof block.id === 'string') { toolParts.set(block.id, part); }
+          current.response.push(part);
+        }
+      }
+    }
+    finishTurn();
+
+    if (requests.length === 0) { return null; }
+    return {
+      data: {
+        version: 3,
+        sessionId: path.basename(filePath, '.jsonl'),
+        creationDate: firstTimestamp,
+        customTitle: title,
+        requests,
+      },
+      workspacePath: cwd ? normalizeFsPath(cwd) : '',
+    };
+  }
+}
+
+/**
+ * Aider chat history: a markdown log kept in the repository root. `####`
+ * lines are prompts, `>` lines are console output and everything else is the
+ * model's reply. The whole file becomes one session, since every chat in
+ * the repo appends to it.
+ */
+export class AiderAdapter implements SessionSourceAdapter {
+  private static readonly FILE_NAME = '.aider.chat.history.md';
+
+  readonly id = 'aider';
+  readonly label = 'Aider';
+
+  async discover(workspaceFolders: string[]): Promise<string[]> {
+    const results: string[] = [];
+    for (const folder of workspaceFolders) {
+      const filePath = path.join(folder, AiderAdapter.FILE_NAME);
+      if (await isFile(filePath)) { results.push(filePath); }
+    }
+    return results;
+  }
+
+  matches(filePath: string): boolean {
+    return path.basename(filePath).endsWith(AiderAdapter.FILE_NAME);
+  }
+
+  async read(filePath: string): Promise<ImportedSession | null> {
+    const workspace = path.dirname(filePath);
+    const requests: SerializableChatRequest[] = [];
+    let current: SerializableChatRequest | undefined;
+    let reply: string[] = [];
+    let chatStarted = 0;
+    let firstTimestamp = 0;
+    let model = '';
+    let inPrompt = false;
+
+    const flushReply = () => {
+      const text = reply.join('\n').trim();
+      if (current && text) {
+        current.response.push({ kind: 'markdownContent', content: { value: text } });
+      }
+      reply = [];
+    };
+
+    for await (const line of readLines(filePath)) {
+      const started = /^# aider chat started at (\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2})/.exec(line);
+      if (started) {
+        chatStarted = new Date(`${started[1]}T${started[2]}`).getTime() || 0;
+        if (!firstTimestamp) { firstTimestamp = chatStarted; }
+        inPrompt = false;
+        continue;
+      }
+      if (line.startsWith('####')) {
+        const text = line.replace(/^####\s?/, '');
+        if (inPrompt && current) {
+          current.message.text += `\n${text}`;
+        } else {
+          flushReply();
+          current = {
+            timestamp: chatStarted || undefined,
+            message: { text },
+            response: [],
+            agent: { id: this.id },
+            modelId: model || undefined,
+          };
+          requests.push(current);
+          inPrompt = true;
+        }
+        continue;
+      }
+      inPrompt = false;
+      if (line.startsWith('>')) {
+        const output = line.replace(/^>\s?/, '');
+        const modelMatch = /^(?:Main model|Model): (\S+)/.exec(output);
+        if (modelMatch) {
+          model = modelMatch[1];
+          continue;
+        }
+        if (!current) { continue; }
+        flushReply();
+        const edited = /^Applied edit to (.+)$/.exec(output);
+        if (edited) {
+          current.response.push({ kind: 'textEditGroup', uri: path.join(workspace, edited[1].trim()) });
+        }
+        const tokens = /^Tokens: ([\d.]+k?) sent, ([\d.]+k?) received/.exec(output);
+        if (tokens) {
+          const prompt = (current.usage?.promptTokens ?? 0) + parseTokenCount(tokens[1]);
+          const completion = (current.usage?.completionTokens ?? 0) + parseTokenCount(tokens[2]);
+          current.usage = { promptTokens: prompt, completionTokens: completion, totalTokens: prompt + completion };
+        }
+        continue;
+      }
+      if (current) { reply.push(line); }
+    }
+    flushReply();
+
+    if (requests.length === 0) { return null; }
+    return {
+      data: {
+        version: 3,
+        sessionId: `aider-${hashPath(filePath)}`,
+        creationDate: firstTimestamp,
+        customTitle: `Aider: ${path.basename(workspace)}`,
+        requests,
+      },
+      workspacePath: normalizeFsPath(workspace),
+    };
+  }
+}
+
+/**
+ * A plain OpenAI chat log: either a `messages[]` array or an object with
+ * `messages` and optional `id`, `model`, `created` and `title`. There is no
+ * default location; files come from `sessionTrace.importPaths`.
+ */
+export class OpenAiMessagesAdapter implements SessionSourceAdapter {
+  readonly id = 'openai';
+  readonly label = 'OpenAI messages';
+
+  async discover(): Promise<string[]> {
+    return [];
+  }
+
+  matches(filePath: string): boolean {
+    return filePath.endsWith('.json');
+  }
+
+  async read(filePath: string): Promise<ImportedSession | null> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+    } catch {
+      return null;
+    }
+    const doc = (Array.isArray(raw) ? { messages: raw } : raw) as {
+      messages?: unknown; id?: unknown; model?: unknown; created?: unknown; title?: unknown;
+    } | null;
+    if (!doc || !Array.isArray(doc.messages)) { return null; }
+
+    const model = typeof doc.model === 'string' ? doc.model : undefined;
+    const requests: SerializableChatRequest[] = [];
+    let current: SerializableChatRequest | undefined;
+    const toolParts = new Map<string, SerializableChatResponsePart>();
+    for (const msg of doc.messages as Record<string, unknown>[]) {
+      if (!msg || typeof msg !== 'object') { continue; }
+      const text = openAiContentText(msg.content);
+      if (msg.role === 'tool') {
+        const part = toolParts.get(String(msg.tool_call_id));
+        if (part) { completeToolPart(part, text, false); }
+      } else if (msg.role === 'user') {
+        current = { message: { text }, response: [], agent: { id: this.id }, modelId: model };
+        requests.push(current);
+      } else if (msg.role === 'assistant' && current) {
+        if (text) { current.response.push({ kind: 'markdownContent', content: { value: text } }); }
+        const calls = Array.isArray(msg.tool_calls)
+          ? msg.tool_calls as { id?: string; function?: { name?: string; arguments?: string } }[]
+          : [];
+        for (const call of calls) {
+          if (call?.function?.name) {
+            const args = String(call.function.arguments ?? '');
+            const part = toolPart(call.function.name, args, call.id ?? '', parseArguments(args));
+            if (call.id) { toolParts.set(call.id, part); }
+            current.response.push(part);
+          }
+        }
+      }
+    }
+    if (requests.length === 0) { return null; }
+
+    const created = typeof doc.created === 'number' ? doc.created : 0;
+    return {
+      data: {
+        version: 3,
+        sessionId: `openai-${typeof doc.id === 'string' && doc.id ? doc.id : hashPath(filePath)}`,
+        // `created` is in Unix seconds in OpenAI responses
+        creationDate: created > 0 && created < 1e11 ? created * 1000 : created,
+        customTitle: typeof doc.title === 'string' ? doc.title : undefined,
+        requests,
+      },
+      workspacePath: '',
+    };
+  }
+}
+
+/**
+ * Discovers and reads transcripts through the enabled source adapters.
+ *
+ * Each adapter contributes files from its default locations; files in
+ * user-configured import paths (a file, or a folder scanned one level deep)
+ * go to the first enabled adapter whose `matches` accepts them.
+ */
+export class SessionSources {
+  private readonly adapters: SessionSourceAdapter[];
+  private enabled = new Set<string>();
+  private importPaths: string[] = [];
+  private workspaceFolders: string[] = [];
+
+  constructor(adapters: SessionSourceAdapter[] = BUILTIN_ADAPTERS) {
+    this.adapters = adapters;
+    this.enabled = new Set(adapters.map(a => a.id));
+  }
+
+  setOptions(opts: { enabled: string[]; importPaths: string[] }): void {
+    this.enabled = new Set(opts.enabled);
+    this.importPaths = opts.importPaths.filter(p => p.trim().length > 0);
+  }
+
+  setWorkspaceFolders(folders: string[]): void {
+    this.workspaceFolders = folders;
+  }
+
+  /**
+   * Imported sessions take their storage type from the transcript once parsed;
+   * discovery reports them as global.
+   */
+  async discoverSessionFiles(): Promise<{ filePath: string; storageType: SessionSummary['storageType']; source: string }[]> {
+    const adapters = this.adapters.filter(a => this.enabled.has(a.id));
+    const found = new Map<string, string>();
+
+    for (const adapter of adapters) {
+      try {
+        for (const filePath of await adapter.discover(this.workspaceFolders)) {
+          if (!found.has(filePath)) { found.set(filePath, adapter.id); }
+        }
+      } catch (e) {
+        console.warn(`Session Trace: ${adapter.label} discovery failed:`, e);
+      }
+    }
+
+    for (const importPath of this.importPaths) {
+      const candidates = await isFile(importPath)
+        ? [importPath]
+        : (await readDirSafe(importPath)).map(f => path.join(importPath, f));
+      for (const filePath of candidates) {
+        const adapter = adapters.find(a => a.matches(filePath));
+        if (adapter && !found.has(filePath)) { found.set(filePath, adapter.id); }
+      }
+    }
+
+    return [...found].map(([filePath, source]) => ({ filePath, storageType: 'global' as const, source }));
+  }
+
+  async parseSessionFile(
+    filePath: string,
+    source: string,
+    preStats?: { size: number; mtimeMs: number },
+  ): Promise<{ summary: SessionSummary; data: SerializableChatData } | null> {
+    const adapter = this.adapters.find(a => a.id === source);
+    if (!adapter) { return null; }
+    const [stat, imported] = await Promise.all([
+      preStats ? Promise.resolve(preStats) : fs.promises.stat(filePath),
+      adapter.read(filePath),
+    ]);
+    if (!imported) { return null; }
+
+    const { data, workspacePath } = imported;
+    const summary: SessionSummary = {
+      sessionId: data.sessionId,
+      filePath,
+      title: data.customTitle,
+      creationDate: data.creationDate || stat.mtimeMs,
+      ...summarizeRequests(data.requests),
+      fileSize: stat.size,
+      storageType: workspacePath ? 'workspace' : 'global',
+      workspacePath,
+      installation: '',
+      profile: '',
+      source,
+      lastRequestStarted: 0,
+      lastRequestEnded: 0,
+      isEmpty: false,
+      isExternal: false,
+      archivedAt: 0,
+    };
+    return { summary, data };
+  }
+
+  async readFullSession(filePath: string, source: string): Promise<SerializableChatData | null> {
+    const adapter = this.adapters.find(a => a.id === source);
+    return adapter ? (await adapter.read(filePath))?.data ?? null : null;
+  }
+}
+
+const BUILTIN_ADAPTERS: SessionSourceAdapter[] = [
+  new ClaudeCodeAdapter(),
+  new AiderAdapter(),
+  new OpenAiMessagesAdapter(),
+];
+
+/** Display name of a session source. */
+export function sourceLabel(source: string): string {
+  if (source === 'vscode') { return 'VS Code'; }
+  return BUILTIN_ADAPTERS.find(a => a.id === source)?.label ?? source;
+}
+
+interface ClaudeUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+function sumClaudeUsage(usageByMessage: Map<string, ClaudeUsage>): ChatTokenUsage | undefined {
+  if (usageByMessage.size === 0) { return undefined; }
+  let promptTokens = 0;
+  let completionTokens = 0;
+  for (const u of usageByMessage.values()) {
+    promptTokens += (u.input_tokens ?? 0) + (u.cache_creation_input_tokens ?? 0) + (u.cache_read_input_tokens ?? 0);
+    completionTokens += u.output_tokens ?? 0;
+  }
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/** Pick the most descriptive argument of a tool call for the annotation detail. */
+function describeToolInput(input: unknown): string {
+  if (!input || typeof input !== 'object') { return ''; }
+  const rec = input as Record<string, unknown>;
+  for (const key of ['description', 'command', 'file_path', 'path', 'pattern', 'url', 'query', 'prompt']) {
+    if (typeof rec[key] === 'string' && rec[key]) { return rec[key] as string; }
+  }
+  return JSON.stringify(input).substring(0, 500);
+}
+
+/** A tool call in VS Code's serialized shape; the raw input goes where VS Code keeps it for MCP tools. */
+function toolPart(toolId: string, invocationMessage: string, toolCallId = '', input?: unknown): SerializableChatResponsePart {
+  return {
+    kind: 'toolInvocationSerialized',
+    toolId,
+    invocationMessage,
+    toolCallId,
+    ...(input !== undefined ? { toolSpecificData: { kind: 'input', rawInput: input } } : {}),
+  };
+}
+
+function completeToolPart(part: SerializableChatResponsePart, output: string, isError: boolean): void {
+  part.isComplete = true;
+  part.resultDetails = { output: output ? [{ type: 'embed', isText: true, value: output }] : [], isError };
+}
+
+/** tool_result content is a string or a list of content blocks. */
+function claudeResultText(content: unknown): string {
+  if (typeof content === 'string') { return content; }
+  if (!Array.isArray(content)) { return ''; }
+  return content
+    .map(block => (block && typeof block === 'object' && typeof block.text === 'string') ? block.text as string : '')
+    .filter(Boolean)
+    .join('\n');
+}
+
+function parseArguments(args: string): unknown {
+  try { return JSON.parse(args); } catch { return args || undefined; }
+}
+
+function openAiContentText(content: unknown): string {
+  if (typeof content === 'string') { return content; }
+  if (!Array.isArray(content)) { return ''; }
+  return content
+    .map(part => (part && typeof part === 'object' && typeof part.text === 'string') ? part.text as string : '')
+    .filter(Boolean)
+    .join('\n');
+}
+
+/** Parse aider's token counts, e.g. "2.1k" or "301". */
+function parseTokenCount(value: string): number {
+  const n = parseFloat(value);
+  return Math.round(value.endsWith('k') ? n * 1000 : n);
+}
+
+async function* readLines(filePath: string): AsyncGenerator<string> {
+  const rl = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: 'utf-8' }),
+    crlfDelay: Infinity,
+  });
+  try {
+    for await (const line of rl) {
+      yield line;
+    }
+  } finally {
+    rl.close();
+  }
+}
+
+async function* readJsonLines(filePath: string): AsyncGenerator<Record<string, unknown>> {
+  for await (const line of readLines(filePath)) {
+    if (!line.trim()) { continue; }
+    try {
+      const value = JSON.parse(line);
+      if (value && typeof value === 'object') { yield value; }
+    } catch {
+      // Skip partially written or corrupt lines
+    }
+  }
+}
+
+async function readDirSafe(dir: string): Promise<string[]> {
+  try {
+    return await fs.promises.readdir(dir);
+  } catch {
+    return [];
+  }
+}
+
+async function isFile(p: string): Promise<boolean> {
+  try {
+    return (await fs.promises.stat(p)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function hashPath(filePath: string): string {
+  return createHash('sha1').update(filePath).digest('hex').substring(0, 16);
+}
+
+function normalizeFsPath(value: string): string {
+  const normalized = path.normalize(value);
+  return process.platform === 'win32' ? normalized.toLowerCase() : normalized;
+}
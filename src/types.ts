@@ -107,6 +107,26 @@ export type MutationEntry =
   | { kind: 2; k: ObjectPath; v?: unknown[]; i?: number }          // Push / splice array
   | { kind: 3; k: ObjectPath };                                    // Delete property
 
+/** Why a mutation entry could not be applied during replay. */
+export interface MutationFailure {
+  reason: string;
+  /** The prefix of the entry's path that is missing or has the wrong type. */
+  path: ObjectPath;
+}
+
+/**
+ * Replayed state of a session file up to a byte offset, so later passes can
+ * apply only the lines appended since.
+ */
+export interface ReplayCheckpoint {
+  /** Offset just past the last newline-terminated line that was replayed. */
+  byteOffset: number;
+  lineCount: number;
+  /** Hash of the file's leading bytes, to detect rewrites that kept the size. */
+  headHash: string;
+  state: SerializableChatData;
+}
+
 /** Session index entry (from StorageService) */
 export interface ChatSessionIndexEntry {
   sessionId: string;
@@ -123,7 +143,7 @@ export interface ChatSessionIndexEntry {
   hasPendingEdits?: boolean;
 }
 
-/** Session index (stored in LevelDB) */
+/** Session index (stored under `chat.ChatSessionStore.index` in state.vscdb) */
 export interface ChatSessionIndex {
   version: number;
   entries: Record<string, ChatSessionIndexEntry>;
@@ -160,6 +180,57 @@ export interface SessionSummary {
   fileSize: number;
   storageType: 'workspace' | 'global' | 'transferred';
   workspacePath: string;
+  /** Installation the session was found in, e.g. "Code" or "Code - Insiders". */
+  installation: string;
+  /** Profile name; empty for the default profile. */
+  profile: string;
+  /** Tool that produced the transcript: "vscode" or a source adapter id. */
+  source: string;
+  /** Last activity, from VS Code's session index or the latest turn; 0 when unknown. */
+  lastMessageDate: number;
+  /** Request timing from VS Code's session index; 0 when unknown. */
+  lastRequestStarted: number;
+  lastRequestEnded: number;
+  /** Flagged empty in VS Code's session index. */
+  isEmpty: boolean;
+  /** Flagged external (owned by another chat provider) in VS Code's session index. */
+  isExternal: boolean;
+  /** When the source file was deleted and the session kept from its archived copy; 0 while live. */
+  archivedAt: number;
+}
+
+/** A compressed copy of a session file kept by archive mode. */
+export interface ArchiveEntry {
+  sessionId: string;
+  /** Original location of the session file. */
+  filePath: string;
+  source: string;
+  /** Gzipped copy of the raw file in extension storage. */
+  archivePath: string;
+  /** mtime of the source file when the copy was taken. */
+  fileMtime: number;
+  /** When the source file disappeared; 0 while it still exists. */
+  archivedAt: number;
+  /** Summary at the time of the copy, restored when the index is rebuilt. */
+  summary: SessionSummary;
+}
+
+/** A VS Code User directory (or a profile within one) probed for chat sessions. */
+export interface UserDataRoot {
+  /** Directory containing globalStorage/ and workspaceStorage/. */
+  path: string;
+  /** Installation label, e.g. "Code" or "Code - Insiders". */
+  installation: string;
+  /** Profile name; empty for the default profile. */
+  profile: string;
+}
+
+/** A chatSessions directory found during storage discovery. */
+export interface StorageDirectory {
+  path: string;
+  type: SessionSummary['storageType'];
+  installation: string;
+  profile: string;
 }
 
 // --- SQLite database types ---
@@ -199,10 +270,171 @@ export interface ExtractedAnnotation {
   detail: string;
 }
 
-/** Result of extracting response parts: flattened text + structured annotations. */
+/** Outcome of a tool call: denied/skipped and unfinished calls count as cancelled. */
+export type ToolCallStatus = 'success' | 'error' | 'cancelled';
+
+/** A tool invocation extracted from a `toolInvocationSerialized` part. */
+export interface ExtractedToolCall {
+  /** Position among the turn's tool calls, from 0. */
+  ordinal: number;
+  toolId: string;
+  toolCallId: string;
+  invocationMessage: string;
+  /** Tool input as JSON, when the session recorded it. */
+  arguments: string;
+  /** `toolSpecificData` as JSON (terminal command, todo list, …). */
+  toolSpecificData: string;
+  /** Result text, touched files or exit code, truncated. */
+  result: string;
+  status: ToolCallStatus;
+  /** How the call was approved: user, auto, setting, tool, denied or skipped; empty when unknown. */
+  confirmation: string;
+  durationMs: number;
+}
+
+/** One response part in its original position, including kinds extraction doesn't understand. */
+export interface ExtractedResponsePart {
+  ordinal: number;
+  kind: string;
+  /** Searchable text taken from this part; empty for kinds without text. */
+  text: string;
+  /** The part as serialized in the session file. */
+  payload: string;
+}
+
+/** A fenced code block parsed out of a response's markdown. */
+export interface ExtractedCodeBlock {
+  /** Position among the turn's code blocks, from 0. */
+  ordinal: number;
+  /** First word of the fence's info string; empty when none was given. */
+  language: string;
+  content: string;
+  /** File the block was applied to, from a `codeblockUri` part inside it. */
+  uri: string;
+}
+
+/** Result of extracting response parts: flattened text + structured annotations, tool calls, code blocks and parts. */
 export interface ExtractedResponse {
   text: string;
   annotations: ExtractedAnnotation[];
+  toolCalls: ExtractedToolCall[];
+  codeBlocks: ExtractedCodeBlock[];
+  parts: ExtractedResponsePart[];
+}
+
+/** Session filters shared by the tree's session and file listings. */
+export interface SessionListOptions {
+  maxAgeDays?: number;
+  storageType?: string;
+  workspacePath?: string;
+  installation?: string;
+  profile?: string;
+  source?: string;
+  /** Hide sessions VS Code's index marks empty that have no turns. */
+  excludeEmpty?: boolean;
+  /** true: only archived sessions; false: only sessions whose file still exists. */
+  archived?: boolean;
+  /** Only sessions carrying this user tag. */
+  tag?: string;
+}
+
+/** What the user recorded about a session; kept in user tables, not derived from the session file. */
+export interface SessionMarks {
+  /** Sorted; includes STARRED_TAG when the session is starred. */
+  tags: string[];
+  /** Empty when there is no note. */
+  note: string;
+}
+
+/** A file touched by conversations in one workspace. Counts are turns, not annotations. */
+export interface FileActivity {
+  /** As stored in the annotation: a URI or a plain path. */
+  uri: string;
+  storageType: SessionSummary['storageType'];
+  workspacePath: string;
+  edits: number;
+  /** Turns that referenced the file or applied a code block to it. */
+  references: number;
+  sessions: number;
+  /** Creation date of the newest session that touched the file. */
+  lastDate: number;
+}
+
+/** A turn listed under a file or tool in the tree. */
+export interface ActivityTurn {
+  sessionId: string;
+  sessionTitle: string;
+  creationDate: number;
+  turnIndex: number;
+  promptText: string;
+  timestamp: number;
+}
+
+/** A turn that edited or referenced a file. */
+export interface FileTurn extends ActivityTurn {
+  /** Annotation kinds that tie the turn to the file, e.g. `file_edit`. */
+  kinds: string[];
+}
+
+/** A tool across the conversations that called it. */
+export interface ToolActivity {
+  /** Tool id as called, e.g. `copilot_readFile` or `mcp_github_create_branch`. */
+  name: string;
+  invocations: number;
+  sessions: number;
+  /** Epoch ms of the latest turn that called the tool. */
+  lastUsed: number;
+}
+
+/** A turn that called a tool. */
+export interface ToolTurn extends ActivityTurn {
+  invocations: number;
+}
+
+/** A code block matched by the code search, with the turn it came from. */
+export interface CodeSearchResult {
+  id: number;
+  sessionId: string;
+  filePath: string;
+  sessionTitle: string;
+  workspacePath: string;
+  turnIndex: number;
+  promptText: string;
+  timestamp: number;
+  language: string;
+  content: string;
+  uri: string;
+}
+
+/**
+ * Structured filters applied alongside the FTS match. Text values match as
+ * case-insensitive substrings; several values for one field match any of them.
+ */
+export interface SearchFilters {
+  models?: string[];
+  agents?: string[];
+  /** Tool ids called in the turn. */
+  tools?: string[];
+  /** Names or URIs of files attached, referenced or edited in the turn. */
+  files?: string[];
+  workspaces?: string[];
+  /** Exact (normalized) workspace id, e.g. the current workspace. */
+  workspaceId?: string;
+  /** Turn timestamp bounds in epoch ms: after is inclusive, before exclusive. */
+  after?: number;
+  before?: number;
+  vote?: 'up' | 'down';
+  /** Only turns with a failed tool call. */
+  hasError?: boolean;
+}
+
+/** Excerpt of a column around the terms a search matched. */
+export interface SearchMatch {
+  column: 'prompt' | 'response' | 'title' | 'attachments' | 'files';
+  /** Whitespace-collapsed excerpt; elided text is marked with "…". */
+  snippet: string;
+  /** [start, end) offsets of the matched terms within `snippet`. */
+  highlights: [number, number][];
 }
 
 /** Search result returned by the database FTS query. */
@@ -219,5 +451,11 @@ export interface SearchResult {
   model: string;
   timestamp: number;
   durationMs: number;
+  /**
+   * Lower ranks first. Text matches are ordered by reciprocal rank fusion of
+   * the turn and session hit lists; filter-only listings are 0 throughout.
+   */
   rank: number;
+  /** Why the turn matched: one excerpt per column containing a match. */
+  matches: SearchMatch[];
 }
@@ -1,22 +1,48 @@
 import * as path from 'path';
-import { SerializableChatResponsePart, ExtractedAnnotation, ExtractedResponse } from './types';
+import {
+  SerializableChatResponsePart, SerializableChatRequest, SessionSummary, ExtractedAnnotation, ExtractedResponse,
+  ExtractedToolCall, ToolCallStatus, ExtractedResponsePart, ExtractedCodeBlock, SearchMatch,
+} from './types';
+
+/** Markers passed to FTS5 snippet() around matched terms; never present in indexed text. */
+export const SNIPPET_OPEN = '\u0002';
+export const SNIPPET_CLOSE = '\u0003';
+
+/** Tag in `session_tags` that marks a session as starred. */
+export const STARRED_TAG = 'starred';
+
+/** Longest tool result text kept in the index. */
+const MAX_TOOL_RESULT_CHARS = 2000;
+
+/** VS Code's ToolConfirmKind, in enum order. */
+const CONFIRM_KINDS = ['denied', 'auto', 'setting', 'tool', 'user', 'skipped'];
 
 /**
- * Extract both flattened searchable text and structured annotations from response parts.
+ * Extract flattened searchable text, structured annotations and tool calls from
+ * response parts, plus every part in order with its raw payload.
  * This is the primary extraction function used during indexing.
  */
 export function extractResponseParts(parts: SerializableChatResponsePart[]): ExtractedResponse {
   const texts: string[] = [];
   const annotations: ExtractedAnnotation[] = [];
+  const toolCalls: ExtractedToolCall[] = [];
+  const orderedParts: ExtractedResponsePart[] = [];
+  // Markdown parts are chunks of one stream; code fences can span several of them
+  let markdown = '';
+  const codeblockUris: { offset: number; uri: string }[] = [];
 
   for (const part of parts) {
+    if (!part || typeof part !== 'object') { continue; }
+    const textStart = texts.length;
     switch (part.kind) {
       case 'markdownContent': {
         const content = part.content;
         if (typeof content === 'string') {
           texts.push(content);
+          markdown += content;
         } else if (content && typeof content === 'object' && 'value' in content) {
           texts.push((content as { value: string }).value);
+          markdown += (content as { value: string }).value;
         }
         break;
       }
@@ -34,7 +60,7 @@ export function extractResponseParts(parts: SerializableChatResponsePart[]): Ext
         // VS Code uses toolId (newer) or toolName (older) for the tool name
         const toolName = String(rec.toolId || rec.toolName || '');
         // invocationMessage is the user-visible description; input is legacy
-        const detail = String(rec.invocationMessage || rec.input || '');
+        const detail = markdownText(rec.invocationMessage) || String(rec.input || '');
         if (toolName) { texts.push(toolName); }
         if (detail) { texts.push(detail); }
         // Always keep tool annotations even with empty detail
@@ -45,6 +71,7 @@ export function extractResponseParts(parts: SerializableChatResponsePart[]): Ext
             uri: '',
             detail: detail.substring(0, 500),
           });
+          toolCalls.push(extractToolCall(rec, toolName, detail, toolCalls.length));
         }
         break;
       }
@@ -62,6 +89,8 @@ export function extractResponseParts(parts: SerializableChatResponsePart[]): Ext
       case 'codeblockUri': {
         const uri = extractUri(part.uri);
         if (uri) { texts.push(uri); }
+        // VS Code emits this right after the opening fence of the block it belongs to
+        if (uri) { codeblockUris.push({ offset: markdown.length, uri }); }
         annotations.push({
           kind: 'codeblock',
           name: uri ? path.basename(uri) : '',
@@ -93,14 +122,242 @@ export function extractResponseParts(parts: SerializableChatResponsePart[]): Ext
         break;
       }
     }
+    orderedParts.push({
+      ordinal: orderedParts.length,
+      kind: String(part.kind ?? ''),
+      text: texts.slice(textStart).join('\n'),
+      payload: JSON.stringify(part),
+    });
   }
 
   return {
     text: texts.join('\n').trim(),
     annotations: annotations.filter(a => a.name || a.uri || a.detail),
+    toolCalls,
+    codeBlocks: extractCodeBlocks(markdown, codeblockUris),
+    parts: orderedParts,
+  };
+}
+
+/**
+ * Parse fenced code blocks (``` or ~~~, CommonMark rules) out of markdown.
+ * An unclosed fence runs to the end, as in a cancelled response.
+ */
+export function extractCodeBlocks(
+  markdown: string,
+  codeblockUris: { offset: number; uri: string }[] = [],
+): ExtractedCodeBlock[] {
+  const blocks: ExtractedCodeBlock[] = [];
+  let open: { fence: string; language: string; start: number; lines: string[] } | undefined;
+  let offset = 0;
+
+  const close = (end: number) => {
+    if (!open) { return; }
+    const start = open.start;
+    blocks.push({
+      ordinal: blocks.length,
+      language: open.language,
+      content: open.lines.join('\n'),
+      uri: codeblockUris.find(u => u.offset >= start && u.offset <= end)?.uri ?? '',
+    });
+    open = undefined;
+  };
+
+  for (const line of markdown.split('\n')) {
+    const lineEnd = offset + line.length;
+    if (!open) {
+      const m = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/.exec(line);
+      // Backtick fences can't have backticks in their info string
+      if (m && !(m[1][0] === '`' && line.slice(m[0].length).includes('`'))) {
+        open = { fence: m[1], language: m[2].toLowerCase(), start: offset, lines: [] };
+      }
+    } else {
+      const m = /^ {0,3}(`{3,}|~{3,})\s*$/.exec(line);
+      if (m && m[1][0] === open.fence[0] && m[1].length >= open.fence.length) {
+        close(lineEnd);
+      } else {
+        open.lines.push(line);
+      }
+    }
+    offset = lineEnd + 1;
+  }
+  close(markdown.length);
+  return blocks;
+}
+
+/**
+ * Structure a serialized tool invocation: its input, result and outcome.
+ * Which of these are recorded depends on the tool and the VS Code version.
+ */
+function extractToolCall(
+  rec: Record<string, unknown>,
+  toolId: string,
+  invocationMessage: string,
+  ordinal: number,
+): ExtractedToolCall {
+  const specific = asRecord(rec.toolSpecificData);
+  const details = rec.resultDetails;
+  const detailsRecord = asRecord(details);
+  const terminalState = asRecord(specific?.terminalCommandState);
+  const exitCode = typeof terminalState?.exitCode === 'number' ? terminalState.exitCode : undefined;
+
+  // Arguments: the raw input when recorded, else what the tool-specific data says it ran
+  let args: unknown = undefined;
+  if (specific?.kind === 'input' && specific.rawInput !== undefined) {
+    args = specific.rawInput;
+  } else if (typeof detailsRecord?.input === 'string') {
+    args = parseJsonOrString(detailsRecord.input);
+  } else if (specific?.kind === 'terminal') {
+    const commandLine = asRecord(specific.commandLine);
+    const command = commandLine
+      ? commandLine.userEdited ?? commandLine.toolEdited ?? commandLine.original
+      : specific.command;
+    if (command !== undefined) { args = { command }; }
+  } else if (rec.input !== undefined) {
+    args = parseJsonOrString(rec.input);
+  }
+
+  // Result: tool output text, touched files, or the terminal exit code
+  let result = '';
+  if (Array.isArray(details)) {
+    result = details.map(d => extractUri(asRecord(d)?.uri ?? d)).filter(Boolean).join('\n');
+  } else if (Array.isArray(detailsRecord?.output)) {
+    result = detailsRecord.output
+      .map(o => asRecord(o))
+      .filter(o => o && o.isText !== false && typeof o.value === 'string')
+      .map(o => o!.value as string)
+      .join('\n');
+  }
+  if (!result && exitCode !== undefined) { result = `exit code ${exitCode}`; }
+  if (!result) { result = markdownText(rec.pastTenseMessage); }
+
+  const confirmation = confirmationKind(rec.isConfirmed);
+  let status: ToolCallStatus = 'success';
+  if (confirmation === 'denied' || confirmation === 'skipped' || rec.isComplete === false) {
+    status = 'cancelled';
+  } else if (detailsRecord?.isError === true || (exitCode !== undefined && exitCode !== 0)) {
+    status = 'error';
+  }
+
+  return {
+    ordinal,
+    toolId,
+    toolCallId: typeof rec.toolCallId === 'string' ? rec.toolCallId : '',
+    invocationMessage,
+    arguments: args === undefined ? '' : JSON.stringify(args),
+    toolSpecificData: specific ? JSON.stringify(specific) : '',
+    result: result.substring(0, MAX_TOOL_RESULT_CHARS),
+    status,
+    confirmation,
+    durationMs: typeof terminalState?.duration === 'number' ? terminalState.duration : 0,
+  };
+}
+
+/** `isConfirmed` is a boolean in older sessions and `{ type: ToolConfirmKind }` in newer ones. */
+function confirmationKind(isConfirmed: unknown): string {
+  if (isConfirmed === true) { return 'user'; }
+  if (isConfirmed === false) { return 'denied'; }
+  const type = asRecord(isConfirmed)?.type;
+  return typeof type === 'number' ? CONFIRM_KINDS[type] ?? '' : '';
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+}
+
+function parseJsonOrString(value: unknown): unknown {
+  if (typeof value !== 'string') { return value; }
+  try { return JSON.parse(value); } catch { return value; }
+}
+
+/** Text of a plain string or an IMarkdownString-like `{ value }`. */
+function markdownText(value: unknown): string {
+  if (typeof value === 'string') { return value; }
+  const text = asRecord(value)?.value;
+  return typeof text === 'string' ? text : '';
+}
+
+/**
+ * Aggregate the per-request fields shown in a session summary.
+ */
+export function summarizeRequests(
+  requests: SerializableChatRequest[],
+): Pick<
+  SessionSummary, 'requestCount' | 'lastMessage' | 'lastMessageDate' | 'modelIds' | 'agents' | 'totalTokens' | 'hasVotes'
+> {
+  const modelIds = new Set<string>();
+  const agents = new Set<string>();
+  let totalTokens = 0;
+  let hasVotes = false;
+  let lastMessage: string | undefined;
+  let lastMessageDate = 0;
+
+  for (const req of requests) {
+    if (req.modelId) {
+      modelIds.add(req.modelId);
+    }
+    if (req.agent?.id || req.agent?.agentId) {
+      agents.add(req.agent.id || req.agent.agentId || '');
+    }
+    if (req.usage?.totalTokens) {
+      totalTokens += req.usage.totalTokens;
+    }
+    if (req.vote) {
+      hasVotes = true;
+    }
+    if (req.message?.text) {
+      lastMessage = req.message.text;
+    }
+    if (typeof req.timestamp === 'number' && req.timestamp > lastMessageDate) {
+      lastMessageDate = req.timestamp;
+    }
+  }
+
+  return {
+    requestCount: requests.length,
+    lastMessage: lastMessage?.substring(0, 120),
+    lastMessageDate,
+    modelIds: [...modelIds],
+    agents: [...agents],
+    totalTokens,
+    hasVotes,
   };
 }
 
+/**
+ * Turn an FTS5 snippet() result marked with SNIPPET_OPEN/SNIPPET_CLOSE into
+ * plain text with highlight offsets, collapsing whitespace to single spaces.
+ */
+export function parseSnippet(raw: string): Pick<SearchMatch, 'snippet' | 'highlights'> {
+  let snippet = '';
+  const highlights: [number, number][] = [];
+  let start = -1;
+  for (const ch of raw) {
+    if (ch === SNIPPET_OPEN) {
+      start = snippet.length;
+    } else if (ch === SNIPPET_CLOSE) {
+      if (start >= 0 && snippet.length > start) { highlights.push([start, snippet.length]); }
+      start = -1;
+    } else if (/\s/.test(ch)) {
+      if (snippet.length > 0 && !snippet.endsWith(' ')) { snippet += ' '; }
+    } else {
+      snippet += ch;
+    }
+  }
+  return { snippet: snippet.trimEnd(), highlights };
+}
+
+/** Render a match excerpt with its highlights wrapped in `open`/`close`, e.g. `**`. */
+export function formatMatch(match: Pick<SearchMatch, 'snippet' | 'highlights'>, open: string, close = open): string {
+  let out = '';
+  let pos = 0;
+  for (const [start, end] of match.highlights) {
+    out += match.snippet.slice(pos, start) + open + match.snippet.slice(start, end) + close;
+    pos = end;
+  }
+  return out + match.snippet.slice(pos);
+}
+
 export function relativeTime(ts: number): string {
   if (!ts) { return ''; }
   const diff = Date.now() - ts;